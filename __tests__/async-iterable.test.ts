@@ -0,0 +1,113 @@
+import { describe, it, expect } from "bun:test";
+import {
+	collect,
+	collect_all_errors,
+	filter_ok,
+	map_ok,
+	partition,
+	take_while_ok,
+} from "../src/async-iterable";
+import { err, ok, type Result } from "../src/result";
+import { matchers } from "../src/testing";
+
+expect.extend(matchers);
+
+/**
+ * streams the given results while recording how many were consumed and whether the stream was closed
+ */
+function tracked<T, E>(list: Array<Result<T, E>>) {
+	const state = { consumed: 0, closed: false };
+
+	async function* iterable() {
+		try {
+			for (const result of list) {
+				state.consumed++;
+				yield result;
+			}
+		} finally {
+			state.closed = true;
+		}
+	}
+
+	return { state, iterable: iterable() };
+}
+
+/**
+ * reads a whole async iterable into an array
+ */
+async function to_array<T>(iterable: AsyncIterable<T>): Promise<Array<T>> {
+	const items: Array<T> = [];
+
+	for await (const item of iterable) {
+		items.push(item);
+	}
+
+	return items;
+}
+
+describe("async-iterable", () => {
+	it("should map ok values lazily with an async function in map_ok", async () => {
+		const { state, iterable } = tracked<number, string>([ok(1), err("error")]);
+		const mapped = map_ok(iterable, async (x) => x * 2);
+		expect(state.consumed).toBe(0);
+		expect(await to_array(mapped)).toEqual([ok(2), err("error")]);
+	});
+
+	it("should accept plain iterables", async () => {
+		const list: Array<Result<number, string>> = [ok(1), ok(2)];
+		expect(await to_array(map_ok(list, (x) => x + 1))).toEqual([ok(2), ok(3)]);
+	});
+
+	it("should keep errs and passing ok values with filter_ok", async () => {
+		const { iterable } = tracked<number, string>([ok(1), err("error"), ok(2)]);
+		expect(
+			await to_array(filter_ok(iterable, async (x) => x % 2 === 0)),
+		).toEqual([err("error"), ok(2)]);
+	});
+
+	it("should stop after the first err with take_while_ok", async () => {
+		const { state, iterable } = tracked<number, string>([
+			ok(1),
+			err("first"),
+			ok(3),
+		]);
+		expect(await to_array(take_while_ok(iterable))).toEqual([
+			ok(1),
+			err("first"),
+		]);
+		expect(state.consumed).toBe(2);
+		expect(state.closed).toBe(true);
+	});
+
+	it("should collect ok values with collect", async () => {
+		const { iterable } = tracked<number, string>([ok(1), ok(2)]);
+		expect(await collect(iterable)).toEqual(ok([1, 2]));
+	});
+
+	it("should stop consuming and close the stream at the first err with collect", async () => {
+		const { state, iterable } = tracked<number, string>([
+			ok(1),
+			err("first"),
+			err("second"),
+		]);
+		const result = await collect(iterable);
+		expect(result).toBeErrWith("first");
+		expect(state.consumed).toBe(2);
+		expect(state.closed).toBe(true);
+	});
+
+	it("should split a stream with partition", async () => {
+		const { iterable } = tracked<number, string>([ok(1), err("a"), ok(2)]);
+		expect(await partition(iterable)).toEqual([[2, 1], ["a"]]);
+	});
+
+	it("should collect every error with collect_all_errors", async () => {
+		const { iterable } = tracked<number, string>([ok(1), err("a"), err("b")]);
+		expect(await collect_all_errors(iterable)).toEqual(err(["a", "b"]));
+	});
+
+	it("should collect every value with collect_all_errors when all are ok", async () => {
+		const { iterable } = tracked<number, string>([ok(1), ok(2)]);
+		expect(await collect_all_errors(iterable)).toEqual(ok([1, 2]));
+	});
+});
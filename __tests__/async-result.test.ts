@@ -0,0 +1,275 @@
+import { describe, it, expect } from "bun:test";
+import {
+	from_promise,
+	unwrap,
+	map,
+	map_error,
+	or,
+	then,
+	all,
+	gen,
+	all_settled,
+	race,
+	any,
+	traverse,
+} from "../src/async-result";
+import {
+	bind,
+	ok,
+	err,
+	on_err,
+	type ErrEvent,
+	type Result,
+} from "../src/result";
+import { matchers } from "../src/testing";
+
+expect.extend(matchers);
+
+describe("async-result", () => {
+	it("should convert a resolved promise into an ok value", async () => {
+		const result = await from_promise(Promise.resolve(42), () => "error");
+		expect(result).toBeOkWith(42);
+	});
+
+	it("should convert a rejected promise into an err value", async () => {
+		const result = await from_promise(
+			Promise.reject(new Error("boom")),
+			(reason) => (reason as Error).message,
+		);
+		expect(result).toBeErrWith("boom");
+	});
+
+	it("should unwrap an ok promise", async () => {
+		expect(await unwrap(Promise.resolve(ok(42)), 0)).toBe(42);
+	});
+
+	it("should return the default value when unwrapping an err value", async () => {
+		expect(await unwrap(err<string>("error"), 0)).toBe(0);
+	});
+
+	it("should notify on_err listeners when unwrapping an err", async () => {
+		const failed = err("error");
+		const events: Array<ErrEvent> = [];
+		const stop = on_err((event) => events.push(event));
+		try {
+			expect(await unwrap(Promise.resolve(failed), 0)).toBe(0);
+		} finally {
+			stop();
+		}
+		expect(events.map(({ kind }) => kind)).toEqual(["unwrapped"]);
+		expect(events[0]?.result === failed).toBe(true);
+	});
+
+	it("should map an ok value with an async function", async () => {
+		const mapped = await map(Promise.resolve(ok(42)), async (x) => x * 2);
+		expect(mapped).toBeOkWith(84);
+	});
+
+	it("should not map an err value", async () => {
+		let called = false;
+		const mapped = await map(err<string>("error"), (x: number) => {
+			called = true;
+			return x * 2;
+		});
+		expect(called).toBe(false);
+		expect(mapped).toBeErrWith("error");
+	});
+
+	it("should map_error an err value with an async function", async () => {
+		const mapped = await map_error(
+			Promise.resolve(err("error")),
+			async (x) => `new ${x}`,
+		);
+		expect(mapped).toBeErrWith("new error");
+	});
+
+	it("should not map_error an ok value", async () => {
+		const mapped = await map_error(ok(42), (x: string) => `new ${x}`);
+		expect(mapped).toBeOkWith(42);
+	});
+
+	it("should return the first ok value with or", async () => {
+		const result = await or(Promise.resolve(ok(42)), ok(100));
+		expect(result).toBeOkWith(42);
+	});
+
+	it("should return the second value if the first is an err with or", async () => {
+		const result = await or(err("error"), Promise.resolve(ok(100)));
+		expect(result).toBeOkWith(100);
+	});
+
+	it("should chain an ok value with an async function", async () => {
+		const chained = await then(ok(42), async (x) => ok(x * 2));
+		expect(chained).toBeOkWith(84);
+	});
+
+	it("should chain an ok value with a function that returns an err value", async () => {
+		const chained = await then(Promise.resolve(ok(42)), () =>
+			Promise.resolve(err("new error")),
+		);
+		expect(chained).toBeErrWith("new error");
+	});
+
+	it("should not chain an err value", async () => {
+		const chained = await then(err<string>("error"), async (x: number) =>
+			ok(x * 2),
+		);
+		expect(chained).toBeErrWith("error");
+	});
+
+	it("should return an ok of an array when all results are ok", async () => {
+		const result = await all<number, string>([
+			ok(1),
+			Promise.resolve(ok(2)),
+			ok(3),
+		]);
+		expect(result).toBeOkWith([1, 2, 3]);
+	});
+
+	it("should return the first err in list order", async () => {
+		const list: Array<Promise<Result<number, string>>> = [
+			Promise.resolve(ok(1)),
+			new Promise((resolve) => setTimeout(() => resolve(err("first")), 5)),
+			Promise.resolve(err("second")),
+		];
+		const result = await all(list);
+		expect(result).toBeErrWith("first");
+	});
+
+	it("should await each step with gen", async () => {
+		const fetch_user = async (id: number): Promise<Result<string, "missing">> =>
+			id === 1 ? ok("ada") : err("missing");
+		const fetch_age = async (name: string): Promise<Result<number, "private">> =>
+			name === "ada" ? ok(36) : err("private");
+
+		const result: Result<string, "missing" | "private"> = await gen(
+			async function* () {
+				const name = yield* bind(await fetch_user(1));
+				const age = yield* bind(await fetch_age(name));
+				return `${name} is ${age}`;
+			},
+		);
+		expect(result).toBeOkWith("ada is 36");
+	});
+
+	it("should short-circuit on the first err with gen", async () => {
+		let reached = false;
+		const result = await gen(async function* () {
+			yield* bind(await Promise.resolve(err("first")));
+			reached = true;
+			return 1;
+		});
+		expect(reached).toBe(false);
+		expect(result).toBeErrWith("first");
+	});
+
+	it("should return every outcome with all_settled", async () => {
+		const results = await all_settled<number, string, string>(
+			[ok(1), Promise.resolve(err("error")), Promise.resolve(ok(3))],
+			() => "rejected",
+		);
+		expect(results).toEqual([ok(1), err("error"), ok(3)]);
+	});
+
+	it("should map rejections instead of rejecting with all_settled", async () => {
+		const results = await all_settled(
+			[Promise.reject(new Error("boom")), Promise.resolve(ok(2))],
+			(reason) => (reason as Error).message,
+		);
+		expect(results).toEqual([err("boom"), ok(2)]);
+	});
+
+	it("should return the first result to settle with race", async () => {
+		const slow = Bun.sleep(10).then(() => ok(1));
+		const fast = Promise.resolve(err("fast"));
+		expect(await race<number, string>([slow, fast])).toEqual(err("fast"));
+	});
+
+	it("should return the first ok to settle with any", async () => {
+		const slow = Bun.sleep(10).then(() => ok("slow"));
+		const failed = Promise.resolve(err("error"));
+		const fast = Bun.sleep(1).then(() => ok("fast"));
+		expect(
+			await any<string, string, string>([slow, failed, fast], String),
+		).toEqual(ok("fast"));
+	});
+
+	it("should return every error in order with any when all are err", async () => {
+		const late = Bun.sleep(5).then(() => err("first"));
+		const early = Promise.resolve(err("second"));
+		expect(await any<number, string, string>([late, early], String)).toEqual(
+			err(["first", "second"]),
+		);
+		expect(await any([], String)).toEqual(err([]));
+	});
+
+	it("should count a rejection as an error with any", async () => {
+		const rejected = Promise.reject(new Error("boom"));
+		const later = Bun.sleep(1).then(() => ok(1));
+		expect(
+			await any([rejected, later], (reason) => (reason as Error).message),
+		).toEqual(ok(1));
+		expect(
+			await any([Promise.reject(new Error("boom"))], (reason) =>
+				(reason as Error).message,
+			),
+		).toEqual(err(["boom"]));
+	});
+
+	it("should run over every item in order with traverse", async () => {
+		const result = await traverse([3, 1, 2], async (x) => {
+			await Bun.sleep(x);
+			return ok(x * 10);
+		});
+		expect(result).toEqual(ok([30, 10, 20]));
+	});
+
+	it("should limit concurrent calls with traverse", async () => {
+		let running = 0;
+		let peak = 0;
+		const result = await traverse(
+			[1, 2, 3, 4, 5],
+			async (x) => {
+				running++;
+				peak = Math.max(peak, running);
+				await Bun.sleep(1);
+				running--;
+				return ok(x);
+			},
+			{ concurrency: 2 },
+		);
+		expect(result).toEqual(ok([1, 2, 3, 4, 5]));
+		expect(peak).toBe(2);
+	});
+
+	it("should stop starting calls and abort running ones on the first err with traverse", async () => {
+		const started: Array<number> = [];
+		const signals: Array<AbortSignal> = [];
+		const result = await traverse(
+			[1, 2, 3, 4],
+			async (x, _index, signal): Promise<Result<number, string>> => {
+				started.push(x);
+				signals.push(signal);
+				if (x === 1) {
+					return err("first");
+				}
+				await Bun.sleep(5);
+				return ok(x);
+			},
+			{ concurrency: 2 },
+		);
+		expect(result).toEqual(err("first"));
+		expect(started).toEqual([1, 2]);
+		expect(signals.every((signal) => signal.aborted)).toBe(true);
+	});
+
+	it("should throw a RangeError for an invalid concurrency with traverse", async () => {
+		const fn = async (x: number) => ok(x);
+		for (const concurrency of [0, -1, 1.5, Number.NaN]) {
+			expect(() => traverse([1], fn, { concurrency })).toThrow(RangeError);
+		}
+		expect(
+			await traverse([1, 2], fn, { concurrency: Number.POSITIVE_INFINITY }),
+		).toEqual(ok([1, 2]));
+	});
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from "bun:test";
+import {
+	ContextError,
+	context,
+	with_context,
+	causes,
+	root_cause,
+	report,
+} from "../src/context";
+import { ok, err, then, type Result } from "../src/result";
+import { assert_err, matchers } from "../src/testing";
+
+expect.extend(matchers);
+
+const read_file = (path: string): Result<string, string> =>
+	path === "config.json" ? err(`no such file: ${path}`) : ok("{}");
+
+const load_config = (path: string) =>
+	context(
+		then(context(read_file(path), `failed to read ${path}`), (text) =>
+			ok(text.length),
+		),
+		"failed to load config",
+	);
+
+describe("context", () => {
+	it("should wrap an err value in a ContextError", () => {
+		const result = context(err("boom"), "failed to run");
+		assert_err(result);
+		expect(result.value).toBeInstanceOf(ContextError);
+		expect(result.value).toBeInstanceOf(Error);
+		expect(result.value.message).toBe("failed to run");
+		expect(result.value.cause).toBe("boom");
+	});
+
+	it("should not wrap an ok value", () => {
+		const result = context(ok(42), "failed to run");
+		expect(result).toBeOkWith(42);
+	});
+
+	it("should only build the message of an err value with with_context", () => {
+		let calls = 0;
+		const message = () => {
+			calls += 1;
+			return "failed to run";
+		};
+
+		with_context(ok(42), message);
+		expect(calls).toBe(0);
+
+		const result = with_context(err("boom"), message);
+		expect(calls).toBe(1);
+		assert_err(result);
+		expect(result.value.message).toBe("failed to run");
+	});
+
+	it("should walk the chain of causes", () => {
+		const result = load_config("config.json");
+		assert_err(result);
+		const chain = causes(result.value);
+		expect(chain).toHaveLength(3);
+		expect(chain[0]).toBe(result.value);
+		expect(chain[2]).toBe("no such file: config.json");
+		expect(root_cause(result.value)).toBe("no such file: config.json");
+	});
+
+	it("should return the error itself as root_cause when it has no cause", () => {
+		const error = new Error("boom");
+		expect(root_cause(error)).toBe(error);
+		expect(root_cause("boom")).toBe("boom");
+	});
+
+	it("should stop at cycles in the chain", () => {
+		const first = new Error("first");
+		const second = new Error("second", { cause: first });
+		first.cause = second;
+		expect(causes(first)).toEqual([first, second]);
+	});
+
+	it("should render a report of the chain", () => {
+		const result = load_config("config.json");
+		assert_err(result);
+		expect(report(result.value)).toBe(
+			[
+				"failed to load config",
+				"",
+				"Caused by:",
+				"    0: failed to read config.json",
+				"    1: no such file: config.json",
+			].join("\n"),
+		);
+	});
+
+	it("should render thrown errors the same as err values", () => {
+		const thrown = new Error("failed to load config", {
+			cause: new Error("failed to read config.json", {
+				cause: new TypeError("no such file: config.json"),
+			}),
+		});
+		const returned = load_config("config.json");
+		assert_err(returned);
+		expect(report(thrown)).toBe(report(returned.value));
+	});
+
+	it("should render non-error values", () => {
+		expect(report("boom")).toBe("boom");
+		expect(report(new ContextError("failed", { code: 1 }))).toBe(
+			'failed\n\nCaused by:\n    0: {"code":1}',
+		);
+	});
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "bun:test";
+import {
+	expect as expect_some,
+	from_nullable,
+	from_predicate,
+	get,
+	lazy_or,
+	lazy_unwrap,
+	map,
+	match,
+	none,
+	or,
+	some,
+	tap,
+	tap_none,
+	then,
+	to_result,
+	unwrap,
+	type Option,
+} from "../src/curried-option";
+import { err, ok } from "../src/result";
+import { flow, pipe } from "../src/pipe";
+import type { Equal } from "./helpers";
+
+type Config = {
+	server?: { port?: number | null; host: string } | null;
+};
+
+describe("curried-option", () => {
+	it("should map and unwrap in a pipeline", () => {
+		const result = pipe(
+			some(2),
+			map((x) => x * 2),
+			then((x) => (x > 0 ? some(`${x}`) : none<string>())),
+			unwrap("none"),
+		);
+		const typed: Equal<typeof result, string> = true;
+		expect(typed).toBe(true);
+		expect(result).toBe("4");
+	});
+
+	it("should read a path with get in a pipeline", () => {
+		const config: Config = { server: { port: 8080, host: "localhost" } };
+		const port = pipe(config, get("server", "port"));
+		const typed: Equal<typeof port, Option<number>> = true;
+		expect(typed).toBe(true);
+		expect(port).toEqual(some(8080));
+		expect(pipe({ server: null } as Config, get("server", "host"))).toEqual(
+			none(),
+		);
+	});
+
+	it("should reject a path that doesn't exist on the piped object", () => {
+		const config: Config = {};
+		// @ts-expect-error `path` is not a key of `server`
+		pipe(config, get("server", "path"));
+	});
+
+	it("should create options from a predicate", () => {
+		const positive = from_predicate((x: number) => x > 0);
+		expect(positive(1)).toEqual(some(1));
+		expect(positive(-1)).toEqual(none());
+	});
+
+	it("should fall back in a pipeline", () => {
+		const result = pipe(from_nullable<number>(null), or(some("default")));
+		const typed: Equal<typeof result, Option<number | string>> = true;
+		expect(typed).toBe(true);
+		expect(result).toEqual(some("default"));
+		expect(
+			pipe(
+				some(1),
+				lazy_or(() => some(0)),
+			),
+		).toEqual(some(1));
+	});
+
+	it("should unwrap in a pipeline", () => {
+		expect(
+			pipe(
+				from_nullable<number>(undefined),
+				lazy_unwrap(() => 0),
+			),
+		).toBe(0);
+		expect(pipe(some(1), expect_some("a value"))).toBe(1);
+		expect(() => pipe(none(), expect_some("a value"))).toThrow("a value");
+	});
+
+	it("should match in a pipeline", () => {
+		const describe_value = flow(
+			from_nullable<string>,
+			match({ some: (x) => `some ${x}`, none: () => "none" }),
+		);
+		expect(describe_value("a")).toBe("some a");
+		expect(describe_value(null)).toBe("none");
+	});
+
+	it("should convert to a result in a pipeline", () => {
+		expect(pipe(some(1), to_result("missing"))).toEqual(ok(1));
+		expect(pipe(none(), to_result("missing"))).toEqual(err("missing"));
+	});
+
+	it("should observe values and none in a pipeline", () => {
+		const seen: Array<string> = [];
+		const log = flow(
+			from_nullable<string>,
+			tap((x) => seen.push(x)),
+			tap_none(() => seen.push("none")),
+		);
+		expect(log("a")).toEqual(some("a"));
+		expect(log(null)).toEqual(none());
+		expect(seen).toEqual(["a", "none"]);
+	});
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect } from "bun:test";
+import {
+	err,
+	expect as expect_ok,
+	lazy_or,
+	lazy_unwrap,
+	map,
+	map_both,
+	map_error,
+	match,
+	match_error,
+	ok,
+	or,
+	replace,
+	replace_error,
+	tap,
+	tap_error,
+	then,
+	try as try_,
+	try_recover,
+	unwrap,
+	unwrap_error,
+	type Result,
+} from "../src/curried-result";
+import { pipe } from "../src/pipe";
+import type { Equal } from "./helpers";
+
+const parse = (input: string): Result<number, string> => {
+	const value = Number(input);
+	return Number.isNaN(value) ? err("not a number") : ok(value);
+};
+
+describe("curried-result", () => {
+	it("should map and unwrap in a pipeline", () => {
+		const result = pipe(
+			parse("20"),
+			map((x) => x + 1),
+			then((x) => (x > 0 ? ok(x) : err("negative"))),
+			unwrap(0),
+		);
+		const typed: Equal<typeof result, number> = true;
+		expect(typed).toBe(true);
+		expect(result).toBe(21);
+	});
+
+	it("should widen error types when chaining with then", () => {
+		const result = pipe(
+			parse("1"),
+			then((x) => (x > 0 ? ok(`${x}`) : err(false))),
+		);
+		const typed: Equal<typeof result, Result<string, string | boolean>> = true;
+		expect(typed).toBe(true);
+		expect(result).toEqual(ok("1"));
+		expect(pipe(parse("x"), try_(ok))).toEqual(err("not a number"));
+	});
+
+	it("should map errors in a pipeline", () => {
+		expect(
+			pipe(
+				parse("x"),
+				map_error((error) => error.length),
+			),
+		).toEqual(err(12));
+		expect(
+			pipe(
+				parse("x"),
+				map_both(
+					(x) => x * 2,
+					(error) => error.toUpperCase(),
+				),
+			),
+		).toEqual(err("NOT A NUMBER"));
+	});
+
+	it("should unwrap values and errors in a pipeline", () => {
+		expect(pipe(parse("x"), unwrap_error("none"))).toBe("not a number");
+		expect(
+			pipe(
+				parse("x"),
+				lazy_unwrap(() => -1),
+			),
+		).toBe(-1);
+		expect(pipe(parse("2"), expect_ok("a number"))).toBe(2);
+		expect(() => pipe(parse("x"), expect_ok("a number"))).toThrow("a number");
+	});
+
+	it("should replace values in a pipeline", () => {
+		expect(pipe(parse("1"), replace("done"))).toEqual(ok("done"));
+		expect(pipe(parse("x"), replace_error(null))).toEqual(err(null));
+	});
+
+	it("should fall back in a pipeline", () => {
+		const result = pipe(parse("x"), or(ok("default")));
+		const typed: Equal<typeof result, Result<number | string, never>> = true;
+		expect(typed).toBe(true);
+		expect(result).toEqual(ok("default"));
+		expect(
+			pipe(
+				parse("1"),
+				lazy_or(() => ok(0)),
+			),
+		).toEqual(ok(1));
+		expect(
+			pipe(
+				parse("x"),
+				try_recover((error) => ok(error.length)),
+			),
+		).toEqual(ok(12));
+	});
+
+	it("should match in a pipeline", () => {
+		expect(
+			pipe(
+				parse("2"),
+				match({ ok: (x) => `ok ${x}`, err: (error) => `err ${error}` }),
+			),
+		).toBe("ok 2");
+	});
+
+	it("should match error tags in a pipeline", () => {
+		type Error = { type: "NotFound" } | { type: "Forbidden"; reason: string };
+		const result: Result<number, Error> = err({
+			type: "Forbidden",
+			reason: "admin only",
+		});
+		const value = pipe(
+			result,
+			match_error({
+				NotFound: () => 0,
+				Forbidden: (error) => error.reason,
+			}),
+		);
+		const typed: Equal<typeof value, number | string> = true;
+		expect(typed).toBe(true);
+		expect(value).toBe("admin only");
+	});
+
+	it("should observe values and errors in a pipeline", () => {
+		const seen: Array<number | string> = [];
+		const result = pipe(
+			parse("2"),
+			tap((x) => seen.push(x)),
+			map((x) => x * 2),
+			tap_error((error) => seen.push(error)),
+		);
+		expect(result).toEqual(ok(4));
+		pipe(
+			parse("x"),
+			tap_error((error) => seen.push(error)),
+		);
+		expect(seen).toEqual([2, "not a number"]);
+	});
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect } from "bun:test";
+import {
+	classify,
+	string,
+	number,
+	boolean,
+	literal,
+	array,
+	field,
+	object,
+	optional,
+	union,
+	map,
+	refine,
+	type Decoder,
+	type TypeOf,
+} from "../src/decode";
+import { ok, err, on_err, type ErrEvent } from "../src/result";
+import { some, none, type Option } from "../src/option";
+import { assert_err, assert_ok, matchers } from "../src/testing";
+import type { Equal } from "./helpers";
+
+expect.extend(matchers);
+
+describe("decode", () => {
+	it("should classify values", () => {
+		expect(classify(null)).toBe("null");
+		expect(classify(undefined)).toBe("undefined");
+		expect(classify([])).toBe("array");
+		expect(classify({})).toBe("object");
+		expect(classify("a")).toBe("string");
+		expect(classify(1)).toBe("number");
+	});
+
+	it("should decode primitives", () => {
+		expect(string("a")).toEqual(ok("a"));
+		expect(number(1)).toEqual(ok(1));
+		expect(boolean(false)).toEqual(ok(false));
+	});
+
+	it("should fail to decode mismatched primitives", () => {
+		expect(string(1)).toEqual(
+			err([{ expected: "string", found: "number", path: [] }]),
+		);
+		expect(number(Number.NaN)).toEqual(
+			err([{ expected: "number", found: "number", path: [] }]),
+		);
+		expect(boolean(null)).toEqual(
+			err([{ expected: "boolean", found: "null", path: [] }]),
+		);
+	});
+
+	it("should decode literals", () => {
+		const admin: Decoder<"admin"> = literal("admin");
+		expect(admin("admin")).toEqual(ok("admin"));
+		expect(admin("user")).toEqual(
+			err([{ expected: '"admin"', found: "string", path: [] }]),
+		);
+		expect(literal(null)(null)).toEqual(ok(null));
+	});
+
+	it("should decode arrays and report every malformed item", () => {
+		const numbers = array(number);
+		expect(numbers([1, 2])).toEqual(ok([1, 2]));
+		expect(numbers([])).toEqual(ok([]));
+		expect(numbers([1, "2", null])).toEqual(
+			err([
+				{ expected: "number", found: "string", path: ["1"] },
+				{ expected: "number", found: "null", path: ["2"] },
+			]),
+		);
+		expect(numbers({})).toEqual(
+			err([{ expected: "array", found: "object", path: [] }]),
+		);
+	});
+
+	it("should decode a single field", () => {
+		const name = field("name", string);
+		expect(name({ name: "ada" })).toEqual(ok("ada"));
+		expect(name({})).toEqual(
+			err([{ expected: "string", found: "undefined", path: ["name"] }]),
+		);
+		expect(name("ada")).toEqual(
+			err([{ expected: "object", found: "string", path: [] }]),
+		);
+	});
+
+	it("should decode objects with optional fields", () => {
+		const user = object({
+			name: string,
+			email: optional(string),
+			roles: array(union(literal("admin"), literal("user"))),
+		});
+		const typed: Equal<
+			TypeOf<typeof user>,
+			{
+				name: string;
+				email: Option<string>;
+				roles: Array<"admin" | "user">;
+			}
+		> = true;
+		expect(typed).toBe(true);
+
+		expect(user({ name: "ada", roles: ["admin"], extra: true })).toEqual(
+			ok({ name: "ada", email: none(), roles: ["admin"] }),
+		);
+		expect(user({ name: "ada", email: "ada@example.com", roles: [] })).toEqual(
+			ok({ name: "ada", email: some("ada@example.com"), roles: [] }),
+		);
+	});
+
+	it("should report every malformed field with its path", () => {
+		const config = object({
+			server: object({ host: string, port: number }),
+			debug: boolean,
+		});
+		const decoded = config({ server: { host: 1, port: "80" }, debug: true });
+		assert_err(decoded);
+		expect(decoded.value).toEqual([
+			{ expected: "string", found: "number", path: ["server", "host"] },
+			{ expected: "number", found: "string", path: ["server", "port"] },
+		]);
+	});
+
+	it("should report a malformed optional value", () => {
+		expect(optional(number)(null)).toEqual(ok(none()));
+		expect(optional(number)("1")).toEqual(
+			err([{ expected: "number", found: "string", path: [] }]),
+		);
+	});
+
+	it("should return the first successful decoding of a union", () => {
+		const id = union(string, number);
+		expect(id("a")).toEqual(ok("a"));
+		expect(id(1)).toEqual(ok(1));
+		expect(id(true)).toEqual(
+			err([
+				{ expected: "string", found: "boolean", path: [] },
+				{ expected: "number", found: "boolean", path: [] },
+			]),
+		);
+	});
+
+	it("should not report the intermediate errs of decoders to on_err listeners", () => {
+		const events: Array<ErrEvent> = [];
+		const stop = on_err((event) => events.push(event));
+		try {
+			expect(union(string, number)(1)).toBeOkWith(1);
+			const address = object({
+				user: object({ address: object({ city: string }) }),
+			});
+			expect(address({ user: { address: { city: 1 } } })).toBeErr();
+		} finally {
+			stop();
+		}
+		expect(events).toEqual([]);
+	});
+
+	it("should transform decoded values with map", () => {
+		const date = map(string, (value) => new Date(value));
+		const decoded = date("2024-01-01T00:00:00.000Z");
+		assert_ok(decoded);
+		expect(decoded.value.getUTCFullYear()).toBe(2024);
+		expect(date(1)).toBeErr();
+	});
+
+	it("should check decoded values with refine", () => {
+		const port = refine(
+			number,
+			(value) => Number.isInteger(value) && value > 0,
+			"positive integer",
+		);
+		expect(port(80)).toEqual(ok(80));
+		expect(port(-1)).toEqual(
+			err([{ expected: "positive integer", found: "number", path: [] }]),
+		);
+		expect(port("80")).toEqual(
+			err([{ expected: "number", found: "string", path: [] }]),
+		);
+	});
+
+	it("should narrow the type with a type guard in refine", () => {
+		const non_empty = refine(
+			array(number),
+			(value): value is [number, ...Array<number>] => value.length > 0,
+			"non-empty array",
+		);
+		const typed: Equal<
+			TypeOf<typeof non_empty>,
+			[number, ...Array<number>]
+		> = true;
+		expect(typed).toBe(true);
+		expect(non_empty([])).toEqual(
+			err([{ expected: "non-empty array", found: "array", path: [] }]),
+		);
+	});
+});
@@ -0,0 +1,8 @@
+/**
+ * Whether two types are identical, for type-level assertions in tests:
+ * `const typed: Equal<typeof value, Expected> = true;` only compiles when they are.
+ */
+export type Equal<A, B> =
+	(<V>() => V extends A ? 1 : 2) extends <V>() => V extends B ? 1 : 2
+		? true
+		: false;
@@ -0,0 +1,109 @@
+import { describe, it, expect } from "bun:test";
+import {
+	collect,
+	collect_all_errors,
+	filter_ok,
+	map_ok,
+	partition,
+	take_while_ok,
+} from "../src/iterable";
+import { err, ok, type Result } from "../src/result";
+import { matchers } from "../src/testing";
+import type { Equal } from "./helpers";
+
+expect.extend(matchers);
+
+/**
+ * yields the given results while recording how many were consumed
+ */
+function tracked<T, E>(list: Array<Result<T, E>>) {
+	const state = { consumed: 0 };
+
+	function* iterable() {
+		for (const result of list) {
+			state.consumed++;
+			yield result;
+		}
+	}
+
+	return { state, iterable: iterable() };
+}
+
+describe("iterable", () => {
+	it("should map ok values lazily with map_ok", () => {
+		const { state, iterable } = tracked<number, string>([
+			ok(1),
+			err("error"),
+			ok(3),
+		]);
+		const mapped = map_ok(iterable, (x) => x * 2);
+		expect(state.consumed).toBe(0);
+		expect([...mapped]).toEqual([ok(2), err("error"), ok(6)]);
+		expect(state.consumed).toBe(3);
+	});
+
+	it("should keep errs and passing ok values with filter_ok", () => {
+		const list: Array<Result<number, string>> = [ok(1), err("error"), ok(2)];
+		expect([...filter_ok(list, (x) => x % 2 === 0)]).toEqual([
+			err("error"),
+			ok(2),
+		]);
+	});
+
+	it("should narrow ok values with a type guard in filter_ok", () => {
+		const list: Array<Result<string | number, string>> = [ok(1), ok("a")];
+		const filtered = filter_ok(list, (x): x is string => typeof x === "string");
+		const typed: Equal<
+			typeof filtered,
+			Iterable<Result<string, string>>
+		> = true;
+		expect(typed).toBe(true);
+		expect([...filtered]).toEqual([ok("a")]);
+	});
+
+	it("should stop after the first err with take_while_ok", () => {
+		const { state, iterable } = tracked<number, string>([
+			ok(1),
+			err("first"),
+			ok(3),
+			err("second"),
+		]);
+		expect([...take_while_ok(iterable)]).toEqual([ok(1), err("first")]);
+		expect(state.consumed).toBe(2);
+	});
+
+	it("should collect ok values from a generator with collect", () => {
+		function* numbers() {
+			yield ok(1);
+			yield ok(2);
+		}
+
+		expect(collect(numbers())).toEqual(ok([1, 2]));
+	});
+
+	it("should stop consuming at the first err with collect", () => {
+		const { state, iterable } = tracked<number, string>([
+			ok(1),
+			err("first"),
+			err("second"),
+		]);
+		const result = collect(iterable);
+		expect(result).toBeErrWith("first");
+		expect(state.consumed).toBe(2);
+	});
+
+	it("should split a sequence with partition", () => {
+		const list = new Set<Result<number, string>>([ok(1), err("a"), ok(2)]);
+		expect(partition(list)).toEqual([[2, 1], ["a"]]);
+	});
+
+	it("should collect every error with collect_all_errors", () => {
+		const list: Array<Result<number, string>> = [ok(1), err("a"), err("b")];
+		expect(collect_all_errors(list)).toEqual(err(["a", "b"]));
+	});
+
+	it("should collect every value with collect_all_errors when all are ok", () => {
+		const result = collect_all_errors([ok(1), ok(2)]);
+		expect(result).toBeOkWith([1, 2]);
+	});
+});
@@ -0,0 +1,200 @@
+import { describe, it, expect } from "bun:test";
+import {
+	result_to_json,
+	result_from_json,
+	option_to_json,
+	option_from_json,
+} from "../src/json";
+import { number, string, type Decoder } from "../src/decode";
+import {
+	ok,
+	err,
+	is_result,
+	gen,
+	bind,
+	nil_error,
+	type Result,
+} from "../src/result";
+import {
+	some,
+	none,
+	is_option,
+	bind as bind_option,
+	gen as gen_option,
+	type Option,
+} from "../src/option";
+import { assert_err, assert_ok, matchers } from "../src/testing";
+
+expect.extend(matchers);
+
+const round_trip = (value: unknown) => JSON.parse(JSON.stringify(value));
+
+describe("json", () => {
+	it("should check the shape of results with is_result", () => {
+		expect(is_result(ok(1))).toBe(true);
+		expect(is_result(round_trip(err("error")))).toBe(true);
+		expect(is_result({ type: "ok" })).toBe(true);
+		expect(is_result({ value: 1 })).toBe(false);
+		expect(is_result({ type: "some", value: 1 })).toBe(false);
+		expect(is_result(null)).toBe(false);
+		expect(is_result("ok")).toBe(false);
+	});
+
+	it("should check the shape of options with is_option", () => {
+		expect(is_option(some(1))).toBe(true);
+		expect(is_option(round_trip(none()))).toBe(true);
+		expect(is_option({ type: "some" })).toBe(true);
+		expect(is_option({ type: "ok", value: 1 })).toBe(false);
+		expect(is_option(undefined)).toBe(false);
+	});
+
+	it("should use guarded payloads with gen", () => {
+		for (const payload of [round_trip(ok(1)), structuredClone(ok(1))]) {
+			if (!is_result(payload)) {
+				throw new Error("expected a result");
+			}
+			const result = gen(function* () {
+				return ((yield* bind(payload)) as number) + 1;
+			});
+			expect(result).toBeOkWith(2);
+		}
+
+		const payload = structuredClone(none());
+		if (!is_option(payload)) {
+			throw new Error("expected an option");
+		}
+		const option = gen_option(function* () {
+			return yield* bind_option(payload);
+		});
+		expect(option).toBeNone();
+	});
+
+	it("should encode results in the wire format", () => {
+		expect(JSON.stringify(result_to_json(ok(1)))).toBe(
+			'{"type":"ok","value":1}',
+		);
+		expect(JSON.stringify(result_to_json(err("error")))).toBe(
+			'{"type":"err","value":"error"}',
+		);
+	});
+
+	it("should encode options in the wire format", () => {
+		expect(JSON.stringify(option_to_json(some(1)))).toBe(
+			'{"type":"some","value":1}',
+		);
+		expect(JSON.stringify(option_to_json(none()))).toBe('{"type":"none"}');
+	});
+
+	it("should round-trip results", () => {
+		for (const original of [ok(1), err("error")] as Array<
+			Result<number, string>
+		>) {
+			const decoded = result_from_json(
+				round_trip(result_to_json(original)),
+				number,
+				string,
+			);
+			expect(decoded).toEqual(ok(original));
+		}
+	});
+
+	it("should round-trip results and options holding undefined", () => {
+		const nothing: Decoder<undefined> = (input) =>
+			input === undefined
+				? ok(undefined)
+				: err([{ expected: "undefined", found: typeof input, path: [] }]);
+
+		const result = round_trip(result_to_json(nil_error(err("x"))));
+		expect(is_result(result)).toBe(true);
+		expect(result_from_json(result, number, nothing)).toEqual(
+			ok(err(undefined)),
+		);
+
+		const option = round_trip(option_to_json(some(undefined)));
+		expect(is_option(option)).toBe(true);
+		expect(option_from_json(option, nothing)).toEqual(ok(some(undefined)));
+	});
+
+	it("should round-trip options", () => {
+		for (const original of [some(1), none<number>()]) {
+			const decoded = option_from_json(
+				round_trip(option_to_json(original)),
+				number,
+			);
+			expect(decoded).toEqual(ok(original));
+		}
+	});
+
+	it("should round-trip an option inside a result", () => {
+		const original: Result<Option<number>, string> = ok(some(1));
+		const payload = round_trip(result_to_json(original, option_to_json));
+		expect(payload).toEqual({
+			type: "ok",
+			value: { type: "some", value: 1 },
+		});
+
+		const decoded = result_from_json(
+			payload,
+			(input) => option_from_json(input, number),
+			string,
+		);
+		expect(decoded).toEqual(ok(original));
+	});
+
+	it("should decode into values that work with gen", () => {
+		const decoded = result_from_json({ type: "ok", value: 1 }, number, string);
+		const doubled = gen(function* () {
+			const result = yield* bind(decoded);
+			return (yield* bind(result)) * 2;
+		});
+		expect(doubled).toEqual(ok(2));
+	});
+
+	it("should describe a payload that is not an object", () => {
+		const decoded = result_from_json("ok", number, string);
+		expect(decoded).toEqual(
+			err([{ expected: "object", found: "string", path: [] }]),
+		);
+	});
+
+	it("should describe an unknown tag", () => {
+		const decoded = option_from_json({ value: 1 }, number);
+		expect(decoded).toEqual(
+			err([
+				{ expected: '"some" or "none"', found: "undefined", path: ["type"] },
+			]),
+		);
+
+		const unknown = result_from_json({ type: 1, value: 1 }, number, string);
+		expect(unknown).toEqual(
+			err([{ expected: '"ok" or "err"', found: "number", path: ["type"] }]),
+		);
+	});
+
+	it("should describe a malformed inner value with its path", () => {
+		const decoded = result_from_json(
+			{ type: "ok", value: { type: "some", value: "1" } },
+			(input) => option_from_json(input, number),
+			string,
+		);
+		assert_err(decoded);
+		expect(decoded.value).toEqual([
+			{ expected: "number", found: "string", path: ["value", "value"] },
+		]);
+	});
+
+	it("should decode a none and an err value", () => {
+		const decoded = result_from_json(
+			{ type: "err", value: "error" },
+			number,
+			string,
+		);
+		assert_ok(decoded);
+		expect(decoded.value).toBeErr();
+
+		const missing = option_from_json({ type: "none" }, number);
+		assert_ok(missing);
+		expect(missing.value).toBeNone();
+		expect(missing.value).toBeNone();
+	});
+});
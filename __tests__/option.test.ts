@@ -8,16 +8,45 @@ import {
 	map,
 	then,
 	all,
+	expect as expect_some,
+	unwrap_or_throw,
+	UnwrapError,
+	gen,
+	gen_async,
+	bind,
+	lazy_unwrap,
+	flatten,
+	or,
+	lazy_or,
+	values,
+	from_result,
+	to_result,
+	from_nullable,
+	from_falsy,
+	from_predicate,
+	to_nullable,
+	to_undefined,
+	get,
+	all_record,
+	match,
+	equals,
+	compare,
+	to_string,
+	tap,
+	tap_none,
 	type Option,
 } from "../src/option";
+import { ok, err } from "../src/result";
+import { assert_some, matchers } from "../src/testing";
+import type { Equal } from "./helpers";
+
+expect.extend(matchers);
 
 describe("option", () => {
 	it("should create a some value", () => {
 		const value = some(42);
 		expect(value.type).toBe("some");
-		if (is_some(value)) {
-			expect(value.value).toBe(42);
-		}
+		expect(value).toBeSome(42);
 	});
 
 	it("should create a none value", () => {
@@ -50,60 +79,366 @@ describe("option", () => {
 	it("should map a some value", () => {
 		const value = some(42);
 		const mapped = map(value, (x) => x * 2);
-		expect(is_some(mapped)).toBe(true);
-		if (is_some(mapped)) {
-			expect(mapped.value).toBe(84);
-		}
+		expect(mapped).toBeSome(84);
 	});
 
 	it("should return none when mapping a none value", () => {
 		const value = none<number>();
 		const mapped = map(value, (x) => x * 2);
-		expect(is_none(mapped)).toBe(true);
+		expect(mapped).toBeNone();
 	});
 
 	it("should chain a some value with a function that returns a some value", () => {
 		const value = some(42);
 		const chained = then(value, (x) => some(x * 2));
-		expect(is_some(chained)).toBe(true);
-		if (is_some(chained)) {
-			expect(chained.value).toBe(84);
-		}
+		expect(chained).toBeSome(84);
 	});
 
 	it("should chain a some value with a function that returns a none value", () => {
 		const value = some(42);
 		const chained = then(value, () => none<number>());
-		expect(is_none(chained)).toBe(true);
+		expect(chained).toBeNone();
 	});
 
 	it("should return none when chaining a none value", () => {
 		const value = none<number>();
 		const chained = then(value, (x) => some(x * 2));
-		expect(is_none(chained)).toBe(true);
+		expect(chained).toBeNone();
 	});
 
 	it("should return a some of an array when all options are some", () => {
 		const list: Array<Option<number>> = [some(1), some(2), some(3)];
 		const result = all(list);
-		expect(is_some(result)).toBe(true);
-		if (is_some(result)) {
-			expect(result.value).toEqual([1, 2, 3]);
-		}
+		expect(result).toBeSome([1, 2, 3]);
 	});
 
 	it("should return none when any option in the list is none", () => {
 		const list: Array<Option<number>> = [some(1), none(), some(3)];
 		const result = all(list);
-		expect(is_none(result)).toBe(true);
+		expect(result).toBeNone();
 	});
 
 	it("should return a some of an empty array when the list is empty", () => {
 		const list: Array<Option<number>> = [];
 		const result = all(list);
-		expect(is_some(result)).toBe(true);
-		if (is_some(result)) {
-			expect(result.value).toEqual([]);
+		expect(result).toBeSome([]);
+	});
+
+	it("should expect a some value", () => {
+		expect(expect_some(some(42), "should be some")).toBe(42);
+	});
+
+	it("should throw an UnwrapError when expecting a none value", () => {
+		expect(() => expect_some(none(), "value should exist")).toThrow(
+			new UnwrapError("value should exist"),
+		);
+	});
+
+	it("should unwrap_or_throw a some value", () => {
+		expect(unwrap_or_throw(some(42))).toBe(42);
+	});
+
+	it("should throw an UnwrapError when unwrap_or_throw is called on a none value", () => {
+		expect(() => unwrap_or_throw(none())).toThrow(UnwrapError);
+	});
+
+	it("should return the generator's return value as some with gen", () => {
+		const result: Option<number> = gen(function* () {
+			const a = yield* bind(some(1));
+			const b = yield* bind(some(2));
+			return a + b;
+		});
+		expect(result).toBeSome(3);
+	});
+
+	it("should stop at the first none with gen", () => {
+		const steps: Array<number> = [];
+		const result = gen(function* () {
+			steps.push(yield* bind(some(1)));
+			steps.push(yield* bind(none<number>()));
+			steps.push(yield* bind(some(3)));
+			return steps;
+		});
+		expect(steps).toEqual([1]);
+		expect(result).toBeNone();
+	});
+
+	it("should accept plain objects of the option shape with gen", () => {
+		const plain: Option<number> = { type: "some", value: 1 };
+		const missing: Option<number> = { type: "none" };
+		const incremented = gen(function* () {
+			return (yield* bind(plain)) + 1;
+		});
+		const stopped = gen(function* () {
+			return yield* bind(missing);
+		});
+		expect(incremented).toBeSome(2);
+		expect(stopped).toBeNone();
+	});
+
+	it("should await steps with gen_async", async () => {
+		const find = async (value: number): Promise<Option<number>> =>
+			value > 0 ? some(value) : none();
+
+		const found = await gen_async(async function* () {
+			const a = yield* bind(await find(1));
+			const b = yield* bind(await find(2));
+			return a + b;
+		});
+		expect(found).toBeSome(3);
+
+		const missing = await gen_async(async function* () {
+			const a = yield* bind(await find(1));
+			const b = yield* bind(await find(-1));
+			return a + b;
+		});
+		expect(missing).toBeNone();
+	});
+
+	it("should lazy_unwrap a some value without calling the default", () => {
+		let called = false;
+		const value = lazy_unwrap(some(1), () => {
+			called = true;
+			return 0;
+		});
+		expect(value).toBe(1);
+		expect(called).toBe(false);
+	});
+
+	it("should lazy_unwrap a none value with the default", () => {
+		expect(lazy_unwrap(none<number>(), () => 0)).toBe(0);
+	});
+
+	it("should flatten nested options", () => {
+		expect(unwrap(flatten(some(some(1))), 0)).toBe(1);
+		expect(flatten(some(none<number>()))).toBeNone();
+		expect(flatten(none<Option<number>>())).toBeNone();
+	});
+
+	it("should return the first some value with or", () => {
+		expect(unwrap(or(some(1), some(2)), 0)).toBe(1);
+		expect(unwrap(or(some(1), none()), 0)).toBe(1);
+		expect(unwrap(or(none(), some(2)), 0)).toBe(2);
+		expect(or(none(), none())).toBeNone();
+	});
+
+	it("should only call the fallback with lazy_or when the first value is none", () => {
+		let called = false;
+		const first = lazy_or(some(1), () => {
+			called = true;
+			return some(2);
+		});
+		expect(unwrap(first, 0)).toBe(1);
+		expect(called).toBe(false);
+		expect(unwrap(lazy_or(none(), () => some(2)), 0)).toBe(2);
+		expect(lazy_or(none(), () => none())).toBeNone();
+	});
+
+	it("should collect the some values with values", () => {
+		expect(values([some(1), none(), some(3)])).toEqual([1, 3]);
+		expect(values([none()])).toEqual([]);
+	});
+
+	it("should convert an ok result into a some value with from_result", () => {
+		expect(unwrap(from_result(ok(1)), 0)).toBe(1);
+	});
+
+	it("should convert an err result into a none value with from_result", () => {
+		expect(from_result(err("error"))).toBeNone();
+	});
+
+	it("should convert a some value into an ok result with to_result", () => {
+		const result = to_result(some(1), "error");
+		expect(result).toBeOkWith(1);
+	});
+
+	it("should convert a none value into an err result with to_result", () => {
+		const result = to_result(none(), "error");
+		expect(result).toBeErrWith("error");
+	});
+
+	it("should create a some value from a non-nullable value with from_nullable", () => {
+		const input: number | null = 0;
+		const value: Option<number> = from_nullable(input);
+		expect(unwrap(value, 1)).toBe(0);
+	});
+
+	it("should create a none value from null or undefined with from_nullable", () => {
+		expect(from_nullable(null)).toBeNone();
+		expect(from_nullable(undefined)).toBeNone();
+	});
+
+	it("should only create a some value from truthy values with from_falsy", () => {
+		const value: Option<string> = from_falsy("text" as string | undefined);
+		expect(unwrap(value, "")).toBe("text");
+
+		for (const falsy of [false, 0, 0n, "", null, undefined, Number.NaN]) {
+			expect(from_falsy(falsy)).toBeNone();
 		}
 	});
+
+	it("should narrow the type with a type guard in from_predicate", () => {
+		const input: string | number = "text";
+		const value: Option<string> = from_predicate(
+			input,
+			(x): x is string => typeof x === "string",
+		);
+		expect(unwrap(value, "")).toBe("text");
+	});
+
+	it("should create a none value when the predicate fails in from_predicate", () => {
+		expect(from_predicate(1, (x) => x > 1)).toBeNone();
+		expect(unwrap(from_predicate(2, (x) => x > 1), 0)).toBe(2);
+	});
+
+	it("should convert options into nullable values", () => {
+		expect(to_nullable(some(1))).toBe(1);
+		expect(to_nullable(none())).toBeNull();
+		expect(to_undefined(some(1))).toBe(1);
+		expect(to_undefined(none())).toBeUndefined();
+	});
+
+	it("should read an optional property with get", () => {
+		type User = { name: string; email?: string };
+		const with_email: User = { name: "ada", email: "ada@example.com" };
+		const without_email: User = { name: "ada" };
+
+		const email: Option<string> = get(with_email, "email");
+		expect(unwrap(email, "")).toBe("ada@example.com");
+		expect(get(without_email, "email")).toBeNone();
+		expect(get(null as User | null, "name")).toBeNone();
+	});
+
+	it("should read a deep path with get", () => {
+		type Config = {
+			server?: { port: number | null; tls?: { cert: string } };
+		};
+		const config: Config = { server: { port: 8080 } };
+
+		const port: Option<number> = get(config, "server", "port");
+		expect(unwrap(port, 0)).toBe(8080);
+
+		const cert: Option<string> = get(config, "server", "tls", "cert");
+		expect(cert).toBeNone();
+		expect(get({} as Config, "server", "port")).toBeNone();
+
+		// @ts-expect-error unknown keys are rejected
+		get(config, "server", "host");
+	});
+
+	it("should keep the type of each position when combining a tuple with all", () => {
+		const name: Option<string> = some("ada");
+		const result = all([name, some(36)]);
+		const typed: Equal<typeof result, Option<[string, number]>> = true;
+		expect(typed).toBe(true);
+		expect(unwrap(result, ["", 0])).toEqual(["ada", 36]);
+	});
+
+	it("should keep array types when combining an array with all", () => {
+		const list: Array<Option<number>> = [some(1), some(2)];
+		const result = all(list);
+		const typed: Equal<typeof result, Option<Array<number>>> = true;
+		expect(typed).toBe(true);
+	});
+
+	it("should combine a large array with all", () => {
+		const list = Array.from({ length: 100_000 }, (_, index) => some(index));
+		const result = all(list);
+		assert_some(result);
+		expect(result.value.length).toBe(100_000);
+		expect(result.value[99_999]).toBe(99_999);
+	});
+
+	it("should share a single frozen none value", () => {
+		expect(none()).toBe(none());
+		expect(Object.isFrozen(none())).toBe(true);
+		expect(Object.isFrozen(some(1))).toBe(true);
+	});
+
+	it("should combine a record of some values with all_record", () => {
+		const name: Option<string> = some("ada");
+		const age: Option<number> = some(36);
+
+		const result = all_record({ name, age });
+		const typed: Equal<typeof result, Option<{ name: string; age: number }>> =
+			true;
+		expect(typed).toBe(true);
+		expect(unwrap(result, { name: "", age: 0 })).toEqual({
+			name: "ada",
+			age: 36,
+		});
+	});
+
+	it("should return none when any option in the record is none with all_record", () => {
+		const result = all_record({ name: some("ada"), age: none<number>() });
+		expect(result).toBeNone();
+	});
+
+	it("should call the some handler with match", () => {
+		const value = match(some(42), {
+			some: (x) => x * 2,
+			none: () => 0,
+		});
+		expect(value).toBe(84);
+	});
+
+	it("should call the none handler with match", () => {
+		const value = match(none<number>(), {
+			some: (x) => x * 2,
+			none: () => 0,
+		});
+		expect(value).toBe(0);
+	});
+
+	it("should compare options for equality with equals", () => {
+		expect(equals(some(1), some(1))).toBe(true);
+		expect(equals(some(1), some(2))).toBe(false);
+		expect(equals(some(1), none())).toBe(false);
+		expect(equals(none(), none())).toBe(true);
+		expect(equals(some("A"), some("a"), (a, b) => a.toLowerCase() === b)).toBe(
+			true,
+		);
+	});
+
+	it("should order none before some values with compare", () => {
+		const list: Array<Option<number>> = [some(2), none(), some(1)];
+		list.sort((a, b) => compare(a, b));
+		expect(list).toEqual([none(), some(1), some(2)]);
+		expect(compare(none(), none())).toBe(0);
+	});
+
+	it("should dedupe options with equals", () => {
+		const list = [some(1), none(), some(1), none<number>()];
+		const unique = list.filter(
+			(option, index) =>
+				list.findIndex((other) => equals(option, other)) === index,
+		);
+		expect(unique).toEqual([some(1), none()]);
+	});
+
+	it("should render options like gleam with to_string", () => {
+		expect(to_string(some("x"))).toBe('Some("x")');
+		expect(to_string(none())).toBe("None");
+		expect(to_string(some(ok(some(1n))))).toBe("Some(Ok(Some(1n)))");
+	});
+
+	it("should print options like to_string when inspected", () => {
+		expect(Bun.inspect(some([1, 2]))).toBe("Some([1, 2])");
+		expect(Bun.inspect(none())).toBe("None");
+	});
+
+	it("should observe values without changing the option with tap", () => {
+		const seen: Array<number> = [];
+		const option = some(1);
+		expect(tap(option, (x) => seen.push(x))).toBe(option);
+		expect(tap(none<number>(), (x) => seen.push(x))).toBeNone();
+		expect(seen).toEqual([1]);
+	});
+
+	it("should observe none values without changing the option with tap_none", () => {
+		let calls = 0;
+		expect(tap_none(none(), () => calls++)).toBeNone();
+		expect(tap_none(some(1), () => calls++)).toBeSome(1);
+		expect(calls).toBe(1);
+	});
 });
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "bun:test";
+import { flow, pipe } from "../src/pipe";
+import type { Equal } from "./helpers";
+
+const increment = (x: number) => x + 1;
+
+describe("pipe", () => {
+	it("should return the value when there are no functions", () => {
+		expect(pipe(1)).toBe(1);
+	});
+
+	it("should pass the value through every function in order", () => {
+		const result = pipe(
+			1,
+			increment,
+			(x) => x * 10,
+			(x) => `${x}`,
+			(x) => x.length,
+		);
+		const typed: Equal<typeof result, number> = true;
+		expect(typed).toBe(true);
+		expect(result).toBe(2);
+	});
+
+	it("should keep inference across many steps", () => {
+		const result = pipe(
+			0,
+			increment,
+			increment,
+			increment,
+			increment,
+			increment,
+			increment,
+			increment,
+			increment,
+			increment,
+			increment,
+			(x) => [x],
+		);
+		const typed: Equal<typeof result, Array<number>> = true;
+		expect(typed).toBe(true);
+		expect(result).toEqual([10]);
+	});
+
+	it("should reject a step that doesn't accept the previous value", () => {
+		// @ts-expect-error the second step expects a string
+		pipe(1, increment, (x: string) => x);
+	});
+});
+
+describe("flow", () => {
+	it("should compose functions in order", () => {
+		const format = flow(
+			(a: number, b: number) => a + b,
+			(x) => x * 2,
+			(x) => `total: ${x}`,
+		);
+		const typed: Equal<typeof format, (a: number, b: number) => string> = true;
+		expect(typed).toBe(true);
+		expect(format(1, 2)).toBe("total: 6");
+	});
+
+	it("should wrap a single function", () => {
+		expect(flow(increment)(1)).toBe(2);
+	});
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect } from "bun:test";
+import { bracket, ReleaseError, with_resource } from "../src/resource";
+import { err, ok, type Result } from "../src/result";
+import { assert_err, matchers } from "../src/testing";
+
+expect.extend(matchers);
+
+/**
+ * a fake handle recording the steps it went through
+ */
+function handle(log: Array<string>) {
+	return {
+		read: (): Result<string, string> => {
+			log.push("use");
+			return ok("content");
+		},
+	};
+}
+
+describe("resource", () => {
+	it("should acquire, use and release with bracket", async () => {
+		const log: Array<string> = [];
+		const result = await bracket(
+			async () => {
+				log.push("acquire");
+				return ok(handle(log));
+			},
+			(file) => file.read(),
+			async () => {
+				log.push("release");
+				return ok(undefined);
+			},
+		);
+		expect(result).toEqual(ok("content"));
+		expect(log).toEqual(["acquire", "use", "release"]);
+	});
+
+	it("should not use or release when acquire fails with bracket", async () => {
+		const log: Array<string> = [];
+		const result = await bracket(
+			() => err("cannot open"),
+			() => {
+				log.push("use");
+				return ok(1);
+			},
+			() => {
+				log.push("release");
+				return ok(undefined);
+			},
+		);
+		expect(result).toEqual(err("cannot open"));
+		expect(log).toEqual([]);
+	});
+
+	it("should release when use fails with bracket", async () => {
+		const log: Array<string> = [];
+		const result = await bracket(
+			() => ok("file"),
+			() => err("cannot read"),
+			() => {
+				log.push("release");
+				return ok(undefined);
+			},
+		);
+		expect(result).toEqual(err("cannot read"));
+		expect(log).toEqual(["release"]);
+	});
+
+	it("should return the release error when only release fails with bracket", async () => {
+		const result = await bracket(
+			() => ok("file"),
+			() => ok(1),
+			() => err("cannot close"),
+		);
+		expect(result).toEqual(err("cannot close"));
+	});
+
+	it("should combine the errors of use and release with bracket", async () => {
+		const result = await bracket(
+			() => ok("file"),
+			() => err("cannot read"),
+			() => err("cannot close"),
+		);
+		assert_err(result);
+		const error = result.value as ReleaseError<string, string>;
+		expect(error).toBeInstanceOf(ReleaseError);
+		expect(error.error).toBe("cannot read");
+		expect(error.suppressed).toBe("cannot close");
+		expect(error.cause).toBe("cannot read");
+	});
+
+	it("should release and rethrow when use throws with bracket", async () => {
+		const log: Array<string> = [];
+		const promise = bracket(
+			() => ok("file"),
+			(): Result<number, string> => {
+				throw new Error("boom");
+			},
+			() => {
+				log.push("release");
+				return ok(undefined);
+			},
+		);
+		await expect(promise).rejects.toThrow("boom");
+		expect(log).toEqual(["release"]);
+	});
+
+	it("should combine the errors when use and release both throw with bracket", async () => {
+		const use_error = new Error("boom");
+		const release_error = new Error("cannot close");
+		const promise = bracket(
+			() => ok("file"),
+			(): Result<number, string> => {
+				throw use_error;
+			},
+			async (): Promise<Result<undefined, string>> => {
+				throw release_error;
+			},
+		);
+		const error = await promise.catch((reason: unknown) => reason);
+		expect(error).toBeInstanceOf(ReleaseError);
+		expect((error as ReleaseError).error).toBe(use_error);
+		expect((error as ReleaseError).suppressed).toBe(release_error);
+	});
+
+	it("should dispose an async disposable with with_resource", async () => {
+		const log: Array<string> = [];
+		const result = await with_resource(
+			() =>
+				ok({
+					value: 1,
+					[Symbol.asyncDispose]: async () => {
+						log.push("async dispose");
+					},
+				}),
+			(resource) => ok(resource.value + 1),
+			String,
+		);
+		expect(result).toEqual(ok(2));
+		expect(log).toEqual(["async dispose"]);
+	});
+
+	it("should dispose a sync disposable with with_resource", async () => {
+		const log: Array<string> = [];
+		const result = await with_resource(
+			() =>
+				ok({
+					[Symbol.dispose]: () => {
+						log.push("dispose");
+					},
+				}),
+			() => err("cannot use"),
+			String,
+		);
+		expect(result).toEqual(err("cannot use"));
+		expect(log).toEqual(["dispose"]);
+	});
+
+	it("should combine a thrown disposal error with the use error in with_resource", async () => {
+		const result = await with_resource(
+			() =>
+				ok({
+					[Symbol.dispose]: () => {
+						throw new Error("cannot dispose");
+					},
+				}),
+			() => err("cannot use"),
+			(reason) => (reason as Error).message,
+		);
+		assert_err(result);
+		const error = result.value as ReleaseError<string, string>;
+		expect(error).toBeInstanceOf(ReleaseError);
+		expect(error.error).toBe("cannot use");
+		expect(error.suppressed).toBe("cannot dispose");
+	});
+});
@@ -13,24 +13,53 @@ import {
 	or,
 	then,
 	all,
+	expect as expect_ok,
+	unwrap_or_throw,
+	try_call,
+	from_throwable,
+	UnwrapError,
+	gen,
+	bind,
+	lazy_unwrap,
+	unwrap_both,
+	map_both,
+	flatten,
+	nil_error,
+	lazy_or,
+	try as try_,
+	try_recover,
+	partition,
+	values,
+	all_record,
+	match,
+	match_error,
+	equals,
+	compare,
+	to_string,
+	tap,
+	tap_error,
+	set_dev_mode,
+	creation_stack,
+	on_err,
+	type ErrEvent,
 	type Result,
 } from "../src/result";
+import { assert_err, assert_ok, matchers } from "../src/testing";
+import type { Equal } from "./helpers";
+
+expect.extend(matchers);
 
 describe("result", () => {
 	it("should create an ok value", () => {
 		const value = ok(42);
 		expect(value.type).toBe("ok");
-		if (is_ok(value)) {
-			expect(value.value).toBe(42);
-		}
+		expect(value).toBeOkWith(42);
 	});
 
 	it("should create an err value", () => {
 		const value = err("error");
 		expect(value.type).toBe("err");
-		if (is_err(value)) {
-			expect(value.value).toBe("error");
-		}
+		expect(value).toBeErrWith("error");
 	});
 
 	it("should correctly identify an ok value", () => {
@@ -68,129 +97,87 @@ describe("result", () => {
 	it("should map an ok value", () => {
 		const value = ok(42);
 		const mapped = map(value, (x) => x * 2);
-		expect(is_ok(mapped)).toBe(true);
-		if (is_ok(mapped)) {
-			expect(mapped.value).toBe(84);
-		}
+		expect(mapped).toBeOkWith(84);
 	});
 
 	it("should not map an err value", () => {
 		const value = err<string>("error");
 		const mapped = map(value, (x: number) => x * 2);
-		expect(is_err(mapped)).toBe(true);
-		if (is_err(mapped)) {
-			expect(mapped.value).toBe("error");
-		}
+		expect(mapped).toBeErrWith("error");
 	});
 
 	it("should map_error an err value", () => {
 		const value = err("error");
 		const mapped = map_error(value, (x) => `new ${x}`);
-		expect(is_err(mapped)).toBe(true);
-		if (is_err(mapped)) {
-			expect(mapped.value).toBe("new error");
-		}
+		expect(mapped).toBeErrWith("new error");
 	});
 
 	it("should not map_error an ok value", () => {
 		const value = ok(42);
 		const mapped = map_error(value, (x: string) => `new ${x}`);
-		expect(is_ok(mapped)).toBe(true);
-		if (is_ok(mapped)) {
-			expect(mapped.value).toBe(42);
-		}
+		expect(mapped).toBeOkWith(42);
 	});
 
 	it("should replace an ok value", () => {
 		const value = ok(42);
 		const replaced = replace(value, "new value");
-		expect(is_ok(replaced)).toBe(true);
-		if (is_ok(replaced)) {
-			expect(replaced.value).toBe("new value");
-		}
+		expect(replaced).toBeOkWith("new value");
 	});
 
 	it("should not replace an err value", () => {
 		const value = err<string>("error");
 		const replaced = replace(value, "new value");
-		expect(is_err(replaced)).toBe(true);
-		if (is_err(replaced)) {
-			expect(replaced.value).toBe("error");
-		}
+		expect(replaced).toBeErrWith("error");
 	});
 
 	it("should replace_error an err value", () => {
 		const value = err("error");
 		const replaced = replace_error(value, "new error");
-		expect(is_err(replaced)).toBe(true);
-		if (is_err(replaced)) {
-			expect(replaced.value).toBe("new error");
-		}
+		expect(replaced).toBeErrWith("new error");
 	});
 
 	it("should not replace_error an ok value", () => {
 		const value = ok(42);
 		const replaced = replace_error(value, "new error");
-		expect(is_ok(replaced)).toBe(true);
-		if (is_ok(replaced)) {
-			expect(replaced.value).toBe(42);
-		}
+		expect(replaced).toBeOkWith(42);
 	});
 
 	it("should return the first ok value with or", () => {
 		const value1 = ok(42);
 		const value2 = ok(100);
 		const result = or(value1, value2);
-		expect(is_ok(result)).toBe(true);
-		if (is_ok(result)) {
-			expect(result.value).toBe(42);
-		}
+		expect(result).toBeOkWith(42);
 	});
 
 	it("should return the second value if the first is an err with or", () => {
 		const value1 = err("error");
 		const value2 = ok(100);
 		const result = or(value1, value2);
-		expect(is_ok(result)).toBe(true);
-		if (is_ok(result)) {
-			expect(result.value).toBe(100);
-		}
+		expect(result).toBeOkWith(100);
 	});
 
 	it("should chain an ok value with a function that returns an ok value", () => {
 		const value = ok(42);
 		const chained = then(value, (x) => ok(x * 2));
-		expect(is_ok(chained)).toBe(true);
-		if (is_ok(chained)) {
-			expect(chained.value).toBe(84);
-		}
+		expect(chained).toBeOkWith(84);
 	});
 
 	it("should chain an ok value with a function that returns an err value", () => {
 		const value = ok(42);
 		const chained = then(value, () => err("new error"));
-		expect(is_err(chained)).toBe(true);
-		if (is_err(chained)) {
-			expect(chained.value).toBe("new error");
-		}
+		expect(chained).toBeErrWith("new error");
 	});
 
 	it("should not chain an err value", () => {
 		const value = err<string>("error");
 		const chained = then(value, (x: number) => ok(x * 2));
-		expect(is_err(chained)).toBe(true);
-		if (is_err(chained)) {
-			expect(chained.value).toBe("error");
-		}
+		expect(chained).toBeErrWith("error");
 	});
 
 	it("should return an ok of an array when all results are ok", () => {
 		const list: Array<Result<number, string>> = [ok(1), ok(2), ok(3)];
 		const result = all(list);
-		expect(is_ok(result)).toBe(true);
-		if (is_ok(result)) {
-			expect(result.value).toEqual([1, 2, 3]);
-		}
+		expect(result).toBeOkWith([1, 2, 3]);
 	});
 
 	it("should return the first err when any result in the list is an err", () => {
@@ -200,18 +187,513 @@ describe("result", () => {
 			ok(3),
 		];
 		const result = all(list);
-		expect(is_err(result)).toBe(true);
-		if (is_err(result)) {
-			expect(result.value).toBe("error");
-		}
+		expect(result).toBeErrWith("error");
 	});
 
 	it("should return an ok of an empty array when the list is empty", () => {
 		const list: Array<Result<number, string>> = [];
 		const result = all(list);
-		expect(is_ok(result)).toBe(true);
-		if (is_ok(result)) {
-			expect(result.value).toEqual([]);
+		expect(result).toBeOkWith([]);
+	});
+
+	it("should expect an ok value", () => {
+		expect(expect_ok(ok(42), "should be ok")).toBe(42);
+	});
+
+	it("should throw an UnwrapError with the err value as cause when expecting an err value", () => {
+		const cause = { reason: "not found" };
+		try {
+			expect_ok(err(cause), "user should exist");
+			throw new Error("unreachable");
+		} catch (error) {
+			expect(error).toBeInstanceOf(UnwrapError);
+			expect((error as UnwrapError).message).toBe("user should exist");
+			expect((error as UnwrapError).cause).toBe(cause);
+		}
+	});
+
+	it("should unwrap_or_throw an ok value", () => {
+		expect(unwrap_or_throw(ok(42))).toBe(42);
+	});
+
+	it("should throw an UnwrapError when unwrap_or_throw is called on an err value", () => {
+		expect(() => unwrap_or_throw(err("error"))).toThrow(UnwrapError);
+	});
+
+	it("should capture a return value with try_call", () => {
+		const result = try_call(
+			() => JSON.parse("[1, 2]") as Array<number>,
+			() => "invalid json",
+		);
+		expect(result).toBeOkWith([1, 2]);
+	});
+
+	it("should capture a thrown value with try_call", () => {
+		const result = try_call(
+			() => JSON.parse("{"),
+			(error) => error instanceof SyntaxError,
+		);
+		expect(result).toBeErrWith(true);
+	});
+
+	it("should wrap a throwing function with from_throwable", () => {
+		const divide = from_throwable(
+			(a: number, b: number) => {
+				if (b === 0) {
+					throw new RangeError("division by zero");
+				}
+
+				return a / b;
+			},
+			(error) => (error as Error).message,
+		);
+
+		const quotient = divide(10, 2);
+		expect(quotient).toBeOkWith(5);
+
+		const failed = divide(1, 0);
+		expect(failed).toBeErrWith("division by zero");
+	});
+
+	it("should return the generator's return value as ok with gen", () => {
+		const parse = (input: string): Result<number, "nan"> => {
+			const value = Number(input);
+			return Number.isNaN(value) ? err("nan") : ok(value);
+		};
+		const positive = (value: number): Result<number, "negative"> =>
+			value < 0 ? err("negative") : ok(value);
+
+		const result: Result<number, "nan" | "negative"> = gen(function* () {
+			const a = yield* bind(parse("1"));
+			const b = yield* bind(positive(yield* bind(parse("2"))));
+			return a + b;
+		});
+		expect(result).toBeOkWith(3);
+	});
+
+	it("should short-circuit on the first err with gen", () => {
+		const steps: Array<number> = [];
+		let cleaned_up = false;
+
+		const result = gen(function* () {
+			try {
+				steps.push(yield* bind(ok(1)));
+				steps.push(yield* bind(err("first")));
+				steps.push(yield* bind(err("second")));
+				return steps;
+			} finally {
+				cleaned_up = true;
+			}
+		});
+		expect(steps).toEqual([1]);
+		expect(cleaned_up).toBe(true);
+		expect(result).toBeErrWith("first");
+	});
+
+	it("should accept plain objects of the result shape with gen", () => {
+		const plain: Result<number, string> = { type: "ok", value: 1 };
+		const failed: Result<number, string> = { type: "err", value: "boom" };
+		const incremented = gen(function* () {
+			return (yield* bind(plain)) + 1;
+		});
+		const stopped = gen(function* () {
+			return yield* bind(failed);
+		});
+		expect(incremented).toBeOkWith(2);
+		expect(stopped).toBeErrWith("boom");
+	});
+
+	it("should lazy_unwrap an ok value without calling the default", () => {
+		let called = false;
+		const value = lazy_unwrap(ok(1), () => {
+			called = true;
+			return 50;
+		});
+		expect(value).toBe(1);
+		expect(called).toBe(false);
+	});
+
+	it("should lazy_unwrap an err value with the default", () => {
+		expect(lazy_unwrap(err<string>("oops"), () => 50)).toBe(50);
+	});
+
+	it("should unwrap_both an ok or an err value", () => {
+		expect(unwrap_both(ok(1))).toBe(1);
+		expect(unwrap_both(err(2))).toBe(2);
+	});
+
+	it("should map_both an ok value with the ok function", () => {
+		const mapped = map_both(
+			ok(1),
+			(x) => x + 1,
+			(x: string) => x.length,
+		);
+		expect(mapped).toBeOkWith(2);
+	});
+
+	it("should map_both an err value with the err function", () => {
+		const mapped = map_both(
+			err("oops"),
+			(x: number) => x + 1,
+			(x) => x.length,
+		);
+		expect(mapped).toBeErrWith(4);
+	});
+
+	it("should flatten nested results", () => {
+		expect(unwrap(flatten(ok(ok(1))), 0)).toBe(1);
+		expect(unwrap_error(flatten(ok(err(1))), 0)).toBe(1);
+		expect(unwrap_error(flatten(err(1)), 0)).toBe(1);
+		expect(unwrap(flatten(ok(ok(ok(1)))), ok(0))).toEqual(ok(1));
+	});
+
+	it("should replace the error with undefined using nil_error", () => {
+		const value = nil_error(err("oops"));
+		assert_err(value);
+		expect(value.value).toBeUndefined();
+		expect(unwrap(nil_error(ok(1)), 0)).toBe(1);
+	});
+
+	it("should return the first ok value with lazy_or without calling the fallback", () => {
+		let called = false;
+		const result = lazy_or(ok(1), () => {
+			called = true;
+			return ok(2);
+		});
+		expect(unwrap(result, 0)).toBe(1);
+		expect(called).toBe(false);
+	});
+
+	it("should call the fallback with lazy_or when the first value is an err", () => {
+		expect(unwrap(lazy_or(err("error"), () => ok(2)), 0)).toBe(2);
+		expect(unwrap_error(lazy_or(err("error"), () => err("other")), "")).toBe(
+			"other",
+		);
+	});
+
+	it("should chain an ok value with try", () => {
+		expect(unwrap(try_(ok(1), (x) => ok(x + 1)), 0)).toBe(2);
+		expect(unwrap_error(try_(ok(1), () => err(1)), 0)).toBe(1);
+		expect(unwrap_error(try_(err(1), (x: number) => ok(x + 1)), 0)).toBe(1);
+	});
+
+	it("should recover an err value with try_recover", () => {
+		expect(unwrap(try_recover(ok(1), () => ok(2)), 0)).toBe(1);
+		expect(unwrap(try_recover(err(1), (x) => ok(x + 1)), 0)).toBe(2);
+		expect(unwrap_error(try_recover(err(1), (x) => err(x + 1)), 0)).toBe(2);
+	});
+
+	it("should partition results into ok and err values", () => {
+		expect(partition([])).toEqual([[], []]);
+		expect(
+			partition<number, string>([ok(1), err("a"), err("b"), ok(2)]),
+		).toEqual([
+			[2, 1],
+			["b", "a"],
+		]);
+	});
+
+	it("should collect the ok values with values", () => {
+		expect(values<number, number>([ok(1), err(2), ok(3)])).toEqual([1, 3]);
+		expect(values([err(1)])).toEqual([]);
+	});
+
+	it("should keep the type of each position when combining a tuple with all", () => {
+		const user: Result<{ name: string }, "not_found"> = ok({ name: "ada" });
+		const age: Result<number, "private"> = ok(36);
+
+		const result = all([user, age, ok(true)]);
+		const typed: Equal<
+			typeof result,
+			Result<[{ name: string }, number, boolean], "not_found" | "private">
+		> = true;
+		expect(typed).toBe(true);
+		expect(result).toBeOkWith([{ name: "ada" }, 36, true]);
+	});
+
+	it("should return the first err when combining a tuple with all", () => {
+		const result = all([ok(1), err("first"), err(2)]);
+		const typed: Equal<
+			typeof result,
+			Result<[number, never, never], string | number>
+		> = true;
+		expect(typed).toBe(true);
+		expect(result).toBeErrWith("first");
+	});
+
+	it("should keep array types when combining an array with all", () => {
+		const list: Array<Result<number, string>> = [ok(1), ok(2)];
+		const result = all(list);
+		const typed: Equal<typeof result, Result<Array<number>, string>> = true;
+		expect(typed).toBe(true);
+	});
+
+	it("should combine a large array with all", () => {
+		const list = Array.from({ length: 100_000 }, (_, index) => ok(index));
+		const result = all(list);
+		assert_ok(result);
+		expect(result.value.length).toBe(100_000);
+		expect(result.value[99_999]).toBe(99_999);
+	});
+
+	it("should create frozen results", () => {
+		expect(Object.isFrozen(ok(1))).toBe(true);
+		expect(Object.isFrozen(err("boom"))).toBe(true);
+	});
+
+	it("should combine a record of ok values with all_record", () => {
+		const user: Result<{ name: string }, "not_found"> = ok({ name: "ada" });
+		const settings: Result<{ theme: string }, "forbidden"> = ok({
+			theme: "dark",
+		});
+
+		const result = all_record({ user, settings });
+		const typed: Equal<
+			typeof result,
+			Result<
+				{ user: { name: string }; settings: { theme: string } },
+				"not_found" | "forbidden"
+			>
+		> = true;
+		expect(typed).toBe(true);
+		assert_ok(result);
+		expect(result.value).toEqual({
+			user: { name: "ada" },
+			settings: { theme: "dark" },
+		});
+	});
+
+	it("should return the first err in key order with all_record", () => {
+		const result = all_record({
+			a: ok(1),
+			b: err("first"),
+			c: err("second"),
+		});
+		expect(result).toBeErrWith("first");
+	});
+
+	it("should call the ok handler with match", () => {
+		const value = match(ok(42), {
+			ok: (x) => `ok ${x}`,
+			err: (e: string) => `err ${e}`,
+		});
+		expect(value).toBe("ok 42");
+	});
+
+	it("should call the err handler with match", () => {
+		const value = match(err("error"), {
+			ok: (x: number) => `ok ${x}`,
+			err: (e) => `err ${e}`,
+		});
+		expect(value).toBe("err error");
+	});
+
+	it("should call the handler of the error's tag with match_error", () => {
+		type FetchError =
+			| { type: "NotFound"; id: number }
+			| { type: "Timeout"; after_ms: number };
+
+		const fetch_user = (id: number): Result<string, FetchError> =>
+			id === 1
+				? ok("ada")
+				: id === 2
+					? err({ type: "NotFound", id })
+					: err({ type: "Timeout", after_ms: 500 });
+
+		const describe_user = (id: number) =>
+			match_error(fetch_user(id), {
+				NotFound: (error) => `user ${error.id} not found`,
+				Timeout: (error) => error.after_ms,
+			});
+
+		const described: string | number = describe_user(1);
+		expect(described).toBe("ada");
+		expect(describe_user(2)).toBe("user 2 not found");
+		expect(describe_user(3)).toBe(500);
+
+		const missing_handler = () =>
+			// @ts-expect-error every error variant must be handled
+			match_error(fetch_user(3), { NotFound: () => "not found" });
+		expect(missing_handler).toThrow();
+	});
+
+	it("should compare results for equality with equals", () => {
+		expect(equals(ok(1), ok(1))).toBe(true);
+		expect(equals(ok(1), ok(2))).toBe(false);
+		expect(equals<number, number>(ok(1), err(1))).toBe(false);
+		expect(equals(err("a"), err("a"))).toBe(true);
+		expect(
+			equals(ok([1, 2]), ok([1, 2]), (a, b) => a.join() === b.join()),
+		).toBe(true);
+	});
+
+	it("should order ok values before errs with compare", () => {
+		const list: Array<Result<number, string>> = [
+			err("b"),
+			ok(2),
+			err("a"),
+			ok(1),
+		];
+		list.sort((a, b) => compare(a, b));
+		expect(list).toEqual([ok(1), ok(2), err("a"), err("b")]);
+		expect(compare(ok(1), ok(2), (a, b) => b - a)).toBeGreaterThan(0);
+	});
+
+	it("should render results like gleam with to_string", () => {
+		expect(to_string(ok(1))).toBe("Ok(1)");
+		expect(to_string(err("not found"))).toBe('Err("not found")');
+		expect(to_string(ok(ok([1, "a"])))).toBe('Ok(Ok([1, "a"]))');
+		expect(to_string(ok({ id: 1, tags: [] }))).toBe("Ok({ id: 1, tags: [] })");
+		expect(to_string(err(new TypeError("boom")))).toBe(
+			'Err(TypeError("boom"))',
+		);
+		expect(to_string(ok(undefined))).toBe("Ok(undefined)");
+	});
+
+	it("should render circular values with to_string", () => {
+		const value: { self?: unknown } = {};
+		value.self = ok(value);
+		expect(to_string(ok(value))).toBe("Ok({ self: Ok([Circular]) })");
+	});
+
+	it("should render built-in objects and class instances with to_string", () => {
+		class User {
+			#secret = "hidden";
+			constructor(readonly id: number) {}
+		}
+		expect(to_string(ok(new Date(0)))).toBe(
+			'Ok(Date("1970-01-01T00:00:00.000Z"))',
+		);
+		expect(to_string(ok(new Date(Number.NaN)))).toBe("Ok(Date(Invalid))");
+		expect(to_string(ok(new Map([[1, "a"]])))).toBe('Ok(Map(1) { 1 => "a" })');
+		expect(to_string(ok(new Set([1, 2])))).toBe("Ok(Set(2) { 1, 2 })");
+		expect(to_string(ok(new Map()))).toBe("Ok(Map(0) {})");
+		expect(to_string(ok(/a+/g))).toBe("Ok(/a+/g)");
+		expect(to_string(ok(new URL("https://example.com")))).toBe(
+			'Ok(URL("https://example.com/"))',
+		);
+		expect(to_string(ok(new User(1)))).toBe("Ok(User { id: 1 })");
+		expect(Bun.inspect(ok(new Map([[1, 2]])))).toBe("Ok(Map(1) { 1 => 2 })");
+	});
+
+	it("should print results like to_string when inspected", () => {
+		expect(Bun.inspect(ok(1))).toBe("Ok(1)");
+		expect(Bun.inspect(err({ code: 404 }))).toBe("Err({ code: 404 })");
+	});
+
+	it("should observe values without changing the result with tap", () => {
+		const seen: Array<number> = [];
+		const result = then(
+			tap(ok(1), (x) => seen.push(x)),
+			(x) => ok(x + 1),
+		);
+		expect(result).toBeOkWith(2);
+		expect(seen).toEqual([1]);
+
+		const failed = err("boom");
+		expect(tap(failed, (x) => seen.push(x))).toBe(failed);
+		expect(seen).toEqual([1]);
+	});
+
+	it("should observe errors without changing the result with tap_error", () => {
+		const seen: Array<string> = [];
+		const failed = err("boom");
+		expect(tap_error(failed, (error) => seen.push(error))).toBe(failed);
+		expect(tap_error(ok(1), (error: string) => seen.push(error))).toBeOkWith(
+			1,
+		);
+		expect(seen).toEqual(["boom"]);
+	});
+
+	it("should only capture creation stacks in dev mode", () => {
+		expect(creation_stack(err("boom"))).toBeUndefined();
+
+		set_dev_mode(true);
+		try {
+			const failed = err("boom");
+			expect(creation_stack(failed)).toContain("Err created");
+			expect(creation_stack(ok(1))).toBeUndefined();
+			expect(failed).toEqual(err("boom"));
+		} finally {
+			set_dev_mode(false);
+		}
+
+		expect(creation_stack(err("boom"))).toBeUndefined();
+	});
+
+	it("should notify on_err listeners of created and unwrapped errs", () => {
+		const events: Array<ErrEvent> = [];
+		const stop = on_err((event) => events.push(event));
+		try {
+			const failed = err("boom");
+			expect(unwrap(failed, 0)).toBe(0);
+			expect(lazy_unwrap(failed, () => 1)).toBe(1);
+			unwrap(ok(2), 0);
+			expect(events.map(({ kind }) => kind)).toEqual([
+				"created",
+				"unwrapped",
+				"unwrapped",
+			]);
+			expect(events.every(({ result }) => result === failed)).toBe(true);
+			expect(events[0]?.stack).toBeUndefined();
+		} finally {
+			stop();
+		}
+
+		err("ignored");
+		expect(events).toHaveLength(3);
+	});
+
+	it("should not report errs derived from an existing one to on_err listeners", () => {
+		const failed = err("boom");
+		const events: Array<ErrEvent> = [];
+		const stop = on_err((event) => events.push(event));
+		try {
+			expect(map_error(failed, (e) => e.length)).toBeErrWith(4);
+			expect(nil_error(failed)).toBeErrWith(undefined);
+		} finally {
+			stop();
+		}
+		expect(events).toEqual([]);
+	});
+
+	it("should pass the creation stack to on_err listeners in dev mode", () => {
+		const stacks: Array<string | undefined> = [];
+		const stop = on_err(({ stack }) => stacks.push(stack));
+		set_dev_mode(true);
+		try {
+			unwrap(err("boom"), 0);
+		} finally {
+			set_dev_mode(false);
+			stop();
+		}
+		expect(stacks[0]).toContain("Err created");
+		expect(stacks).toEqual([stacks[0], stacks[0]]);
+	});
+
+	it("should report a throwing on_err listener without affecting the caller", () => {
+		const reported: Array<unknown> = [];
+		const events: Array<ErrEvent> = [];
+		const original = globalThis.queueMicrotask;
+		globalThis.queueMicrotask = (callback) => {
+			try {
+				callback();
+			} catch (error) {
+				reported.push(error);
+			}
+		};
+		const stop_throwing = on_err(() => {
+			throw new Error("listener");
+		});
+		const stop = on_err((event) => events.push(event));
+		try {
+			expect(err("boom")).toBeErrWith("boom");
+		} finally {
+			stop_throwing();
+			stop();
+			globalThis.queueMicrotask = original;
 		}
+		expect(reported).toEqual([new Error("listener")]);
+		expect(events).toHaveLength(1);
 	});
 });
@@ -0,0 +1,268 @@
+import { describe, it, expect } from "bun:test";
+import { AbortedError, retry, timeout, type Scheduler } from "../src/retry";
+import { err, ok, type Result } from "../src/result";
+import { assert_err, matchers } from "../src/testing";
+
+expect.extend(matchers);
+
+/**
+ * a scheduler that records every delay and runs callbacks only when told to
+ */
+function fake_scheduler() {
+	const delays: Array<number> = [];
+	const pending = new Set<() => void>();
+
+	const scheduler: Scheduler = {
+		schedule: (callback, ms) => {
+			delays.push(ms);
+			pending.add(callback);
+
+			return () => pending.delete(callback);
+		},
+	};
+
+	const tick = () => {
+		for (const callback of pending) {
+			pending.delete(callback);
+			callback();
+		}
+	};
+
+	return { scheduler, delays, pending, tick };
+}
+
+/**
+ * a scheduler that records every delay and runs callbacks right away
+ */
+function instant_scheduler() {
+	const delays: Array<number> = [];
+
+	const scheduler: Scheduler = {
+		schedule: (callback, ms) => {
+			delays.push(ms);
+			queueMicrotask(callback);
+
+			return () => {};
+		},
+	};
+
+	return { scheduler, delays };
+}
+
+/**
+ * a function failing a number of times before succeeding, recording its calls
+ */
+function flaky(failures: number) {
+	const calls: Array<number> = [];
+
+	const fn = async (attempt: number): Promise<Result<string, string>> => {
+		calls.push(attempt);
+
+		return attempt <= failures ? err(`failure ${attempt}`) : ok("done");
+	};
+
+	return { fn, calls };
+}
+
+describe("retry", () => {
+	it("should return the first ok without waiting", async () => {
+		const { scheduler, delays } = instant_scheduler();
+		const { fn, calls } = flaky(0);
+		expect(await retry(fn, { scheduler })).toEqual(ok("done"));
+		expect(calls).toEqual([1]);
+		expect(delays).toEqual([]);
+	});
+
+	it("should retry with exponential backoff until an ok", async () => {
+		const { scheduler, delays } = instant_scheduler();
+		const { fn, calls } = flaky(3);
+		const result = await retry(fn, {
+			attempts: 5,
+			delay: 10,
+			jitter: false,
+			scheduler,
+		});
+		expect(result).toEqual(ok("done"));
+		expect(calls).toEqual([1, 2, 3, 4]);
+		expect(delays).toEqual([10, 20, 40]);
+	});
+
+	it("should return the last err once attempts are exhausted", async () => {
+		const { scheduler } = instant_scheduler();
+		const { fn, calls } = flaky(10);
+		expect(await retry(fn, { attempts: 3, scheduler })).toEqual(
+			err("failure 3"),
+		);
+		expect(calls).toEqual([1, 2, 3]);
+	});
+
+	it("should cap delays at max_delay", async () => {
+		const { scheduler, delays } = instant_scheduler();
+		const { fn } = flaky(10);
+		await retry(fn, {
+			attempts: 5,
+			delay: 10,
+			factor: 3,
+			max_delay: 50,
+			jitter: false,
+			scheduler,
+		});
+		expect(delays).toEqual([10, 30, 50, 50]);
+	});
+
+	it("should randomize delays with jitter", async () => {
+		const { scheduler, delays } = instant_scheduler();
+		const { fn } = flaky(10);
+		await retry(fn, { delay: 100, scheduler, random: () => 0.5 });
+		expect(delays).toEqual([50, 100]);
+	});
+
+	it("should stop retrying when should_retry rejects the error", async () => {
+		const { scheduler } = instant_scheduler();
+		const { fn, calls } = flaky(10);
+		const result = await retry(fn, {
+			attempts: 5,
+			scheduler,
+			should_retry: (error) => error !== "failure 2",
+		});
+		expect(result).toEqual(err("failure 2"));
+		expect(calls).toEqual([1, 2]);
+	});
+
+	it("should not call the function when the signal is already aborted", async () => {
+		const { fn, calls } = flaky(0);
+		const controller = new AbortController();
+		controller.abort("stop");
+		const result = await retry(fn, { signal: controller.signal });
+		assert_err(result);
+		expect(result.value).toBeInstanceOf(AbortedError);
+		expect((result.value as AbortedError).cause).toBe("stop");
+		expect(calls).toEqual([]);
+	});
+
+	it("should stop waiting and return an AbortedError when aborted between attempts", async () => {
+		const { scheduler, pending } = fake_scheduler();
+		const { fn, calls } = flaky(10);
+		const controller = new AbortController();
+		const promise = retry(fn, {
+			attempts: 5,
+			scheduler,
+			signal: controller.signal,
+		});
+		await Bun.sleep(0);
+		expect(pending.size).toBe(1);
+		controller.abort("stop");
+		const result = await promise;
+		assert_err(result);
+		expect(result.value).toBeInstanceOf(AbortedError);
+		expect(pending.size).toBe(0);
+		expect(calls).toEqual([1]);
+	});
+
+	it("should not wait when the signal is aborted during an attempt", async () => {
+		const { scheduler, delays } = fake_scheduler();
+		const controller = new AbortController();
+		const result = await retry(
+			async () => {
+				controller.abort("stop");
+				return err("failure");
+			},
+			{ attempts: 5, scheduler, signal: controller.signal },
+		);
+		assert_err(result);
+		expect(result.value).toBeInstanceOf(AbortedError);
+		expect(delays).toEqual([]);
+	});
+
+	it("should throw a RangeError for invalid attempts, delay or factor", async () => {
+		const { fn, calls } = flaky(0);
+		for (const attempts of [0, -1, 1.5, Number.NaN]) {
+			expect(() => retry(fn, { attempts })).toThrow(RangeError);
+		}
+		for (const delay of [-1, Number.NaN, Number.POSITIVE_INFINITY]) {
+			expect(() => retry(fn, { delay })).toThrow(RangeError);
+		}
+		for (const factor of [-1, Number.NaN, Number.POSITIVE_INFINITY]) {
+			expect(() => retry(fn, { factor })).toThrow(RangeError);
+		}
+		expect(calls).toEqual([]);
+		const { scheduler } = instant_scheduler();
+		const unlimited = retry(fn, {
+			attempts: Number.POSITIVE_INFINITY,
+			scheduler,
+		});
+		expect(await unlimited).toEqual(ok("done"));
+	});
+
+	it("should pass the signal of the policy to the function", async () => {
+		const { scheduler } = instant_scheduler();
+		const controller = new AbortController();
+		const signals: Array<AbortSignal | undefined> = [];
+		await retry(
+			async (attempt, signal) => {
+				signals.push(signal);
+				return attempt < 2 ? err("failure") : ok("done");
+			},
+			{ scheduler, signal: controller.signal },
+		);
+		expect(signals).toHaveLength(2);
+		expect(signals[0]).toBe(controller.signal);
+		expect(signals[1]).toBe(controller.signal);
+	});
+});
+
+describe("timeout", () => {
+	it("should return the result of a function settling in time", async () => {
+		const { scheduler, delays, pending } = fake_scheduler();
+		const result = await timeout(
+			async () => ok(1),
+			100,
+			() => "timed out",
+			scheduler,
+		);
+		expect(result).toEqual(ok(1));
+		expect(delays).toEqual([100]);
+		expect(pending.size).toBe(0);
+	});
+
+	it("should return an err and abort the function on timeout", async () => {
+		const { scheduler, tick } = fake_scheduler();
+		let signal: AbortSignal | undefined;
+		const promise = timeout(
+			(s) => {
+				signal = s;
+				return new Promise<Result<number, string>>(() => {});
+			},
+			100,
+			() => "timed out",
+			scheduler,
+		);
+		tick();
+		expect(await promise).toEqual(err("timed out"));
+		expect(signal?.aborted).toBe(true);
+	});
+
+	it("should reject when the function rejects", async () => {
+		const { scheduler, pending } = fake_scheduler();
+		const promise = timeout(
+			async () => {
+				throw new Error("boom");
+			},
+			100,
+			() => "timed out",
+			scheduler,
+		);
+		await expect(promise).rejects.toThrow("boom");
+		await Bun.sleep(0);
+		expect(pending.size).toBe(0);
+	});
+
+	it("should use real timers by default", async () => {
+		const result = await timeout(
+			() => new Promise<Result<number, string>>(() => {}),
+			1,
+			() => "timed out",
+		);
+		expect(result).toEqual(err("timed out"));
+	});
+});
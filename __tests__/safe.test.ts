@@ -0,0 +1,135 @@
+import { describe, it, expect } from "bun:test";
+import {
+	at,
+	find,
+	map_get,
+	parse_date,
+	parse_int,
+	parse_json,
+	parse_url,
+} from "../src/safe";
+import type { Option } from "../src/option";
+import { assert_ok, matchers } from "../src/testing";
+import type { Equal } from "./helpers";
+
+expect.extend(matchers);
+
+describe("safe", () => {
+	it("should find the first matching element", () => {
+		expect(find([1, 2, 3, 4], (x) => x % 2 === 0)).toBeSome(2);
+		expect(find([1, 3], (x) => x % 2 === 0)).toBeNone();
+		expect(find([], () => true)).toBeNone();
+	});
+
+	it("should find elements that are undefined", () => {
+		expect(find([1, undefined], (x) => x === undefined)).toBeSome(undefined);
+	});
+
+	it("should narrow the type with a type guard in find", () => {
+		const found = find([1, "a"], (x): x is string => typeof x === "string");
+		const typed: Equal<typeof found, Option<string>> = true;
+		expect(typed).toBe(true);
+		expect(found).toBeSome("a");
+	});
+
+	it("should read elements from either end with at", () => {
+		expect(at([1, 2, 3], 0)).toBeSome(1);
+		expect(at([1, 2, 3], -1)).toBeSome(3);
+		expect(at([1, 2, 3], 1.7)).toBeSome(2);
+		expect(at([1, 2, 3], Number.NaN)).toBeSome(1);
+		expect(at([undefined], 0)).toBeSome(undefined);
+	});
+
+	it("should return none for indexes out of bounds with at", () => {
+		expect(at([], 0)).toBeNone();
+		expect(at([1, 2, 3], 3)).toBeNone();
+		expect(at([1, 2, 3], -4)).toBeNone();
+		expect(at([1], Number.POSITIVE_INFINITY)).toBeNone();
+	});
+
+	it("should read map entries with map_get", () => {
+		const map = new Map<string, number | undefined>([
+			["a", 1],
+			["b", undefined],
+		]);
+		expect(map_get(map, "a")).toBeSome(1);
+		expect(map_get(map, "b")).toBeSome(undefined);
+		expect(map_get(map, "c")).toBeNone();
+		expect(map_get(new Map(), "a")).toBeNone();
+	});
+
+	it("should parse integers with parse_int", () => {
+		expect(parse_int("42")).toBeOkWith(42);
+		expect(parse_int(" -7 ")).toBeOkWith(-7);
+		expect(parse_int("+3")).toBeOkWith(3);
+		expect(parse_int("ff", 16)).toBeOkWith(255);
+		expect(parse_int("FF", 16)).toBeOkWith(255);
+		expect(parse_int("101", 2)).toBeOkWith(5);
+	});
+
+	it("should reject inputs parseInt would accept partially or as NaN", () => {
+		expect(parse_int("12px")).toBeErrWith({
+			type: "InvalidInteger",
+			input: "12px",
+			radix: 10,
+		});
+		expect(parse_int("")).toBeErr();
+		expect(parse_int("-")).toBeErr();
+		expect(parse_int("1.5")).toBeErr();
+		expect(parse_int("NaN")).toBeErr();
+		expect(parse_int("2", 2)).toBeErr();
+	});
+
+	it("should throw a RangeError for an invalid radix", () => {
+		expect(() => parse_int("1", 1)).toThrow(RangeError);
+		expect(() => parse_int("1", 37)).toThrow(RangeError);
+	});
+
+	it("should parse JSON with parse_json", () => {
+		expect(parse_json('{"a":[1,null]}')).toBeOkWith({ a: [1, null] });
+		expect(parse_json("null")).toBeOkWith(null);
+	});
+
+	it("should describe invalid JSON with parse_json", () => {
+		const result = parse_json("{");
+		expect(result).toBeErr();
+		expect(result.value).toMatchObject({ type: "InvalidJson", input: "{" });
+		expect(parse_json("")).toBeErr();
+	});
+
+	it("should parse absolute and relative URLs with parse_url", () => {
+		const absolute = parse_url("https://example.com/a?b=1");
+		assert_ok(absolute);
+		expect(absolute.value.searchParams.get("b")).toBe("1");
+
+		const relative = parse_url("../c", "https://example.com/a/b");
+		assert_ok(relative);
+		expect(relative.value.href).toBe("https://example.com/c");
+	});
+
+	it("should describe invalid URLs with parse_url", () => {
+		expect(parse_url("not a url")).toBeErrWith({
+			type: "InvalidUrl",
+			input: "not a url",
+			base: undefined,
+		});
+		expect(parse_url("/path", "not a base")).toBeErr();
+	});
+
+	it("should parse dates and timestamps with parse_date", () => {
+		const date = parse_date("2024-02-29T12:00:00.000Z");
+		assert_ok(date);
+		expect(date.value.toISOString()).toBe("2024-02-29T12:00:00.000Z");
+		expect(parse_date(0)).toBeOkWith(new Date(0));
+	});
+
+	it("should reject invalid dates with parse_date", () => {
+		expect(parse_date("not a date")).toBeErrWith({
+			type: "InvalidDate",
+			input: "not a date",
+		});
+		expect(parse_date("")).toBeErr();
+		expect(parse_date(Number.NaN)).toBeErr();
+		expect(parse_date(8.64e15 + 1)).toBeErr();
+	});
+});
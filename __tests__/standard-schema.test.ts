@@ -0,0 +1,108 @@
+import { describe, it, expect } from "bun:test";
+import {
+	from_standard_schema,
+	from_standard_schema_async,
+	to_standard_schema,
+	type StandardIssue,
+	type StandardSchemaV1,
+} from "../src/standard-schema";
+import { number, object, string } from "../src/decode";
+import { err, ok, type Result } from "../src/result";
+import { matchers } from "../src/testing";
+import type { Equal } from "./helpers";
+
+expect.extend(matchers);
+
+const positive: StandardSchemaV1<unknown, number> = {
+	"~standard": {
+		version: 1,
+		vendor: "test",
+		validate: (value) =>
+			typeof value === "number" && value > 0
+				? { value }
+				: { issues: [{ message: "expected a positive number" }] },
+	},
+};
+
+const positive_async: StandardSchemaV1<unknown, number> = {
+	"~standard": {
+		version: 1,
+		vendor: "test",
+		validate: async (value) => positive["~standard"].validate(value),
+	},
+};
+
+describe("standard-schema", () => {
+	it("should parse a valid input into an Ok", () => {
+		const parse = from_standard_schema(positive);
+
+		expect(parse(1)).toEqual(ok(1));
+	});
+
+	it("should parse an invalid input into an Err with the issues", () => {
+		const parse = from_standard_schema(positive);
+		const r = parse(-1);
+
+		expect(r).toBeErrWith([{ message: "expected a positive number" }]);
+	});
+
+	it("should infer the output type of the schema", () => {
+		const parse = from_standard_schema(positive);
+		const typed: Equal<
+			ReturnType<typeof parse>,
+			Result<number, Array<StandardIssue>>
+		> = true;
+
+		expect(typed).toBe(true);
+	});
+
+	it("should throw when a sync parser gets an async schema", () => {
+		const parse = from_standard_schema(positive_async);
+
+		expect(() => parse(1)).toThrow(TypeError);
+	});
+
+	it("should parse with an async schema", async () => {
+		const parse = from_standard_schema_async(positive_async);
+
+		expect(await parse(1)).toEqual(ok(1));
+		expect(await parse(0)).toEqual(
+			err([{ message: "expected a positive number" }]),
+		);
+	});
+
+	it("should parse with a sync schema asynchronously", async () => {
+		const parse = from_standard_schema_async(positive);
+
+		expect(await parse(2)).toEqual(ok(2));
+	});
+
+	it("should expose a decoder as a standard schema", () => {
+		const schema = to_standard_schema(object({ name: string, age: number }));
+
+		expect(schema["~standard"].version).toBe(1);
+		expect(schema["~standard"].vendor).toBe("better-returns");
+		expect(schema["~standard"].validate({ name: "ada", age: 36 })).toEqual({
+			value: { name: "ada", age: 36 },
+		});
+	});
+
+	it("should report decode errors as issues with their path", () => {
+		const schema = to_standard_schema(object({ name: string, age: number }));
+
+		expect(schema["~standard"].validate({ name: 1 })).toEqual({
+			issues: [
+				{ message: "expected string, found number", path: ["name"] },
+				{ message: "expected number, found undefined", path: ["age"] },
+			],
+		});
+	});
+
+	it("should round trip a decoder through a standard schema", () => {
+		const parse = from_standard_schema(to_standard_schema(string, "custom"));
+		const r = parse("hello");
+
+		expect(r).toBeOkWith("hello");
+		expect(parse(1)).toBeErr();
+	});
+});
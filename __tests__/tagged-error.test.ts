@@ -0,0 +1,116 @@
+import { describe, it, expect } from "bun:test";
+import {
+	tagged_error,
+	tagged_error_class,
+	catch_tag,
+	catch_tags,
+	type Tagged,
+} from "../src/tagged-error";
+import { ok, err, type Result } from "../src/result";
+import { assert_err, matchers } from "../src/testing";
+import type { Equal } from "./helpers";
+
+expect.extend(matchers);
+
+const not_found = tagged_error("NotFound");
+const timeout = tagged_error("Timeout");
+
+class Unauthorized extends tagged_error_class("Unauthorized")<{
+	user: string;
+}> {}
+
+type FetchError =
+	| Tagged<"NotFound", { id: number }>
+	| Tagged<"Timeout">
+	| Unauthorized;
+
+const fetch_user = (id: number): Result<string, FetchError> => {
+	switch (id) {
+		case 1:
+			return ok("ada");
+
+		case 2:
+			return err(not_found({ id }));
+
+		case 3:
+			return err(timeout());
+
+		default:
+			return err(new Unauthorized({ user: "guest" }));
+	}
+};
+
+describe("tagged-error", () => {
+	it("should create plain tagged errors", () => {
+		const error = not_found({ id: 1 });
+		expect(error).toEqual({ type: "NotFound", id: 1 });
+		expect(timeout()).toEqual({ type: "Timeout" });
+	});
+
+	it("should create tagged errors extending Error", () => {
+		const cause = new Error("expired token");
+		const error = new Unauthorized({ user: "guest" }, { cause });
+		expect(error).toBeInstanceOf(Error);
+		expect(error).toBeInstanceOf(Unauthorized);
+		expect(error.type).toBe("Unauthorized");
+		expect(error.name).toBe("Unauthorized");
+		expect(error.user).toBe("guest");
+		expect(error.cause).toBe(cause);
+		expect(error.stack).toBeString();
+	});
+
+	it("should use a message field as the error message", () => {
+		const Invalid = tagged_error_class("Invalid");
+		const error = new Invalid({ message: "port must be a number" });
+		expect(error.message).toBe("port must be a number");
+	});
+
+	it("should recover from one variant with catch_tag", () => {
+		const recovered = catch_tag(fetch_user(2), "NotFound", (error) =>
+			ok(`guest ${error.id}`),
+		);
+		const typed: Equal<
+			typeof recovered,
+			Result<string, Tagged<"Timeout"> | Unauthorized>
+		> = true;
+		expect(typed).toBe(true);
+		expect(recovered).toBeOkWith("guest 2");
+	});
+
+	it("should leave other variants and ok values unchanged with catch_tag", () => {
+		const handler = () => ok("recovered");
+
+		const unchanged = catch_tag(fetch_user(3), "NotFound", handler);
+		assert_err(unchanged);
+		expect(unchanged.value.type).toBe("Timeout");
+
+		const success = catch_tag(fetch_user(1), "NotFound", handler);
+		expect(success).toBeOkWith("ada");
+	});
+
+	it("should allow the handler to fail with a new error in catch_tag", () => {
+		const result = catch_tag(fetch_user(3), "Timeout", () => err("gave up"));
+		expect(result).toBeErrWith("gave up");
+	});
+
+	it("should recover from several variants with catch_tags", () => {
+		const recover = (id: number) =>
+			catch_tags(fetch_user(id), {
+				NotFound: (error) => ok(`guest ${error.id}`),
+				Unauthorized: (error) => err(`denied ${error.user}`),
+			});
+
+		const typed: Equal<
+			ReturnType<typeof recover>,
+			Result<string, Tagged<"Timeout"> | string>
+		> = true;
+		expect(typed).toBe(true);
+
+		expect(recover(1)).toEqual(ok("ada"));
+		expect(recover(2)).toEqual(ok("guest 2"));
+		expect(recover(4)).toEqual(err("denied guest"));
+
+		const unhandled = recover(3);
+		expect(unhandled).toBeErrWith({ type: "Timeout" });
+	});
+});
@@ -0,0 +1,234 @@
+import { describe, it, expect } from "bun:test";
+import {
+	AbortedError,
+	all,
+	fail,
+	from_promise,
+	map,
+	map_error,
+	memoize,
+	memoize_ok,
+	or,
+	run,
+	succeed,
+	then,
+	type Task,
+} from "../src/task";
+import { err, ok, type Result } from "../src/result";
+import { timeout } from "../src/retry";
+import { assert_err, matchers } from "../src/testing";
+import type { Equal } from "./helpers";
+
+expect.extend(matchers);
+
+/**
+ * a task that only settles once `settle` is called, recording each start and the signals it received
+ */
+function deferred<T, E>() {
+	const signals: Array<AbortSignal> = [];
+	let settle: (result: Result<T, E>) => void = () => {};
+	const task: Task<T, E> = (signal) => {
+		signals.push(signal);
+		return new Promise((resolve) => {
+			settle = resolve;
+		});
+	};
+
+	return { task, signals, settle: (result: Result<T, E>) => settle(result) };
+}
+
+describe("task", () => {
+	it("should not start a task until it is run", async () => {
+		let calls = 0;
+		const task = from_promise(
+			async () => ++calls,
+			() => "rejected",
+		);
+		const mapped = map(task, (x) => x * 10);
+		expect(calls).toBe(0);
+		expect(await run(mapped)).toBeOkWith(10);
+		expect(await run(mapped)).toBeOkWith(20);
+	});
+
+	it("should map rejections with from_promise", async () => {
+		const task = from_promise(
+			() => Promise.reject(new Error("boom")),
+			(reason) => (reason as Error).message,
+		);
+		expect(await run(task)).toBeErrWith("boom");
+	});
+
+	it("should map values and errors", async () => {
+		expect(await run(map(succeed(1), (x) => x + 1))).toBeOkWith(2);
+		expect(await run(map(fail("boom"), (x: number) => x + 1))).toBeErrWith(
+			"boom",
+		);
+		expect(await run(map_error(fail("boom"), (e) => e.length))).toBeErrWith(4);
+	});
+
+	it("should chain tasks with then", async () => {
+		const parse = (input: string): Task<number, string> =>
+			Number.isNaN(Number(input))
+				? fail("not a number")
+				: succeed(Number(input));
+		expect(await run(then(succeed("2"), parse))).toBeOkWith(2);
+		expect(await run(then(succeed("x"), parse))).toBeErrWith("not a number");
+
+		let started = false;
+		const chained = then(fail("first"), () => {
+			started = true;
+			return succeed(1);
+		});
+		expect(await run(chained)).toBeErrWith("first");
+		expect(started).toBe(false);
+	});
+
+	it("should only run the fallback of or after an err", async () => {
+		let calls = 0;
+		const fallback: Task<number, string> = async () => {
+			calls++;
+			return ok(0);
+		};
+		expect(await run(or(succeed(1), fallback))).toBeOkWith(1);
+		expect(calls).toBe(0);
+		expect(await run(or(fail("boom"), fallback))).toBeOkWith(0);
+		expect(calls).toBe(1);
+	});
+
+	it("should keep the type of each position with all", async () => {
+		const task = all([succeed(1), succeed("a"), fail(false)]);
+		const typed: Equal<
+			typeof task,
+			Task<[number, string, never], boolean>
+		> = true;
+		expect(typed).toBe(true);
+		expect(await run(task)).toBeErrWith(false);
+		expect(await run(all([succeed(1), succeed("a")]))).toBeOkWith([1, "a"]);
+		expect(await run(all([]))).toBeOkWith([]);
+	});
+
+	it("should abort the other tasks of all on the first err", async () => {
+		const slow = deferred<number, string>();
+		const result = run(all([slow.task, fail("boom")]));
+		expect(await result).toBeErrWith("boom");
+		expect(slow.signals[0]?.aborted).toBe(true);
+	});
+
+	it("should resolve to an AbortedError when the run is cancelled", async () => {
+		const slow = deferred<number, string>();
+		const controller = new AbortController();
+		const result = run(slow.task, { signal: controller.signal });
+		controller.abort("stop");
+		const settled = await result;
+		assert_err(settled);
+		expect(settled.value).toBeInstanceOf(AbortedError);
+		expect((settled.value as AbortedError).cause).toBe("stop");
+		expect(slow.signals[0]?.aborted).toBe(true);
+		slow.settle(ok(1));
+	});
+
+	it("should not start a task when the signal is already aborted", async () => {
+		let started = false;
+		const task: Task<number, never> = async () => {
+			started = true;
+			return ok(1);
+		};
+		const result = await run(task, { signal: AbortSignal.abort() });
+		const typed: Equal<typeof result, Result<number, AbortedError>> = true;
+		expect(typed).toBe(true);
+		expect(result).toBeErr();
+		expect(started).toBe(false);
+	});
+
+	it("should not start the next step after the run is cancelled", async () => {
+		const first = deferred<number, string>();
+		let started = false;
+		const controller = new AbortController();
+		const result = run(
+			then(first.task, () => {
+				started = true;
+				return succeed(2);
+			}),
+			{ signal: controller.signal },
+		);
+		controller.abort();
+		first.settle(ok(1));
+		expect(await result).toBeErr();
+		await Promise.resolve();
+		expect(started).toBe(false);
+	});
+
+	it("should resolve to an AbortedError instead of starting the next step of then or or", async () => {
+		const controller = new AbortController();
+		controller.abort("stop");
+		let calls = 0;
+		const next: Task<number, string> = async () => {
+			calls++;
+			return ok(1);
+		};
+		const chained = await then(succeed(1), () => next)(controller.signal);
+		const fallback = await or(fail("boom"), next)(controller.signal);
+		for (const result of [chained, fallback]) {
+			assert_err(result);
+			expect(result.value).toBeInstanceOf(AbortedError);
+			expect((result.value as AbortedError).cause).toBe("stop");
+		}
+		expect(calls).toBe(0);
+	});
+
+	it("should share the result between runs with memoize", async () => {
+		let calls = 0;
+		const task = memoize<number, string>(async () => err(`failure ${++calls}`));
+		const [a, b] = await Promise.all([run(task), run(task)]);
+		expect(a).toBeErrWith("failure 1");
+		expect(b).toBeErrWith("failure 1");
+		expect(await run(task)).toBeErrWith("failure 1");
+		expect(calls).toBe(1);
+	});
+
+	it("should start a memoized task again after it rejects", async () => {
+		let calls = 0;
+		const task = memoize<number, never>(async () => {
+			if (++calls === 1) {
+				throw new Error("boom");
+			}
+			return ok(calls);
+		});
+		await expect(run(task)).rejects.toThrow("boom");
+		expect(await run(task)).toBeOkWith(2);
+		expect(await run(task)).toBeOkWith(2);
+	});
+
+	it("should only keep ok results with memoize_ok", async () => {
+		let calls = 0;
+		const task = memoize_ok<number, string>(async () =>
+			++calls < 3 ? err(`failure ${calls}`) : ok(calls),
+		);
+		expect(await run(task)).toBeErrWith("failure 1");
+		expect(await run(task)).toBeErrWith("failure 2");
+		expect(await run(task)).toBeOkWith(3);
+		expect(await run(task)).toBeOkWith(3);
+		expect(calls).toBe(3);
+	});
+
+	it("should keep the shared computation going when a run is cancelled", async () => {
+		const slow = deferred<number, string>();
+		const task = memoize(slow.task);
+		const controller = new AbortController();
+		const cancelled = run(task, { signal: controller.signal });
+		const waiting = run(task);
+		controller.abort();
+		expect(await cancelled).toBeErr();
+		slow.settle(ok(1));
+		expect(await waiting).toBeOkWith(1);
+		expect(slow.signals).toHaveLength(1);
+		expect(slow.signals[0]?.aborted).toBe(false);
+	});
+
+	it("should be usable with timeout", async () => {
+		const slow = deferred<number, string>();
+		const result = await timeout(slow.task, 0, () => "timed out");
+		expect(result).toBeErrWith("timed out");
+		expect(slow.signals[0]?.aborted).toBe(true);
+	});
+});
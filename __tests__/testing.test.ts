@@ -0,0 +1,86 @@
+import { describe, it, expect } from "bun:test";
+import { assert_err, assert_ok, assert_some, matchers } from "../src/testing";
+import { err, ok, UnwrapError, type Result } from "../src/result";
+import { none, some, type Option } from "../src/option";
+import type { Equal } from "./helpers";
+
+expect.extend(matchers);
+
+/**
+ * runs an assertion expected to fail and returns its message
+ */
+function failure(assertion: () => void): string {
+	try {
+		assertion();
+	} catch (error) {
+		return (error as Error).message;
+	}
+
+	throw new Error("the assertion passed");
+}
+
+describe("testing", () => {
+	it("should match ok results with toBeOk and toBeOkWith", () => {
+		expect(ok(1)).toBeOk();
+		expect(ok({ id: 1 })).toBeOkWith({ id: 1 });
+		expect(err("boom")).not.toBeOk();
+		expect(ok(1)).not.toBeOkWith(2);
+		expect("not a result").not.toBeOk();
+	});
+
+	it("should match err results with toBeErr and toBeErrWith", () => {
+		expect(err("boom")).toBeErr();
+		expect(err(["a", "b"])).toBeErrWith(["a", "b"]);
+		expect(ok(1)).not.toBeErr();
+		expect(err("boom")).not.toBeErrWith("other");
+	});
+
+	it("should match options with toBeSome and toBeNone", () => {
+		expect(some(1)).toBeSome();
+		expect(some([1])).toBeSome([1]);
+		expect(some(undefined)).toBeSome(undefined);
+		expect(some(1)).not.toBeSome(2);
+		expect(none()).toBeNone();
+		expect(none()).not.toBeSome();
+		expect(some(1)).not.toBeNone();
+	});
+
+	it("should print the expected and received values on failure", () => {
+		const message = failure(() => expect(err("boom")).toBeOkWith(1));
+		expect(message).toContain("Expected: Ok(1)");
+		expect(message).toContain('Received: Err("boom")');
+		expect(failure(() => expect(none()).toBeSome("x"))).toContain(
+			'Expected: Some("x")',
+		);
+		expect(failure(() => expect(ok(1)).not.toBeOk())).toContain(
+			"Expected: not Ok(_)",
+		);
+	});
+
+	it("should narrow results with assert_ok and assert_err", () => {
+		const success: Result<number, string> = ok(1);
+		assert_ok(success);
+		const value: Equal<typeof success.value, number> = true;
+		expect(value).toBe(true);
+
+		const failed: Result<number, string> = err("boom");
+		assert_err(failed);
+		const error: Equal<typeof failed.value, string> = true;
+		expect(error).toBe(true);
+	});
+
+	it("should throw an UnwrapError when an assertion fails", () => {
+		expect(() => assert_ok(err("boom"))).toThrow(UnwrapError);
+		expect(() => assert_ok(err("boom"))).toThrow(
+			'expected Ok(_), received Err("boom")',
+		);
+		expect(() => assert_err(ok(1))).toThrow("received Ok(1)");
+		expect(() => assert_some(none())).toThrow("received None");
+	});
+
+	it("should narrow options with assert_some", () => {
+		const option: Option<string> = some("x");
+		assert_some(option);
+		expect(option.value).toBe("x");
+	});
+});
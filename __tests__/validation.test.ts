@@ -0,0 +1,132 @@
+import { describe, it, expect } from "bun:test";
+import {
+	valid,
+	invalid,
+	from_result,
+	to_result,
+	all,
+	combine,
+	map2,
+	map3,
+	type Validation,
+} from "../src/validation";
+import { ok, err, map, type Result } from "../src/result";
+import { assert_err, matchers } from "../src/testing";
+
+expect.extend(matchers);
+
+const positive = (value: number): Validation<number, string> =>
+	value > 0 ? valid(value) : invalid(`${value} is not positive`);
+
+describe("validation", () => {
+	it("should create a valid value", () => {
+		const value = valid(42);
+		expect(value).toBeOkWith(42);
+	});
+
+	it("should create an invalid value with a single error", () => {
+		const value = invalid("error");
+		expect(value).toBeErrWith(["error"]);
+	});
+
+	it("should convert results into validations", () => {
+		const from_ok = from_result(ok(1));
+		expect(from_ok).toBeOk();
+
+		const from_err = from_result(err("error"));
+		expect(from_err).toBeErrWith(["error"]);
+	});
+
+	it("should convert validations into results", () => {
+		const result: Result<number, Array<string>> = to_result(positive(-1));
+		expect(result).toBeErrWith(["-1 is not positive"]);
+	});
+
+	it("should work with the result module", () => {
+		const doubled = map(positive(2), (x) => x * 2);
+		expect(doubled).toBeOkWith(4);
+	});
+
+	it("should return all values when every validation is valid", () => {
+		const result = all([positive(1), positive(2), positive(3)]);
+		expect(result).toBeOkWith([1, 2, 3]);
+	});
+
+	it("should collect every error in input order", () => {
+		const result = all([positive(-1), positive(2), positive(-3)]);
+		assert_err(result);
+		expect(result.value).toEqual([
+			"-1 is not positive",
+			"-3 is not positive",
+		]);
+	});
+
+	it("should return an empty array for an empty list", () => {
+		const result = all<number, string>([]);
+		expect(result).toBeOkWith([]);
+	});
+
+	it("should flatten errors of already combined validations", () => {
+		const result = all([
+			all([positive(-1), positive(-2)]),
+			all([positive(-3)]),
+		]);
+		assert_err(result);
+		expect(result.value).toEqual([
+			"-1 is not positive",
+			"-2 is not positive",
+			"-3 is not positive",
+		]);
+	});
+
+	it("should combine a record of valid validations", () => {
+		const result: Validation<{ age: number; name: string }, string> = combine({
+			age: positive(36),
+			name: valid("ada"),
+		});
+		expect(result).toBeOkWith({ age: 36, name: "ada" });
+	});
+
+	it("should collect every error of a record in key order", () => {
+		const result = combine({
+			age: positive(-1),
+			name: valid("ada"),
+			port: invalid({ field: "port" }),
+		});
+		expect(result).toBeErrWith(["-1 is not positive", { field: "port" }]);
+	});
+
+	it("should combine two validations with map2", () => {
+		const sum = map2(positive(1), positive(2), (a, b) => a + b);
+		expect(sum).toBeOkWith(3);
+
+		const failed = map2(positive(-1), positive(-2), (a, b) => a + b);
+		assert_err(failed);
+		expect(failed.value).toEqual([
+			"-1 is not positive",
+			"-2 is not positive",
+		]);
+	});
+
+	it("should combine three validations with map3", () => {
+		let called = false;
+		const failed = map3(positive(1), positive(-2), positive(-3), (a, b, c) => {
+			called = true;
+			return a + b + c;
+		});
+		expect(called).toBe(false);
+		assert_err(failed);
+		expect(failed.value).toEqual([
+			"-2 is not positive",
+			"-3 is not positive",
+		]);
+
+		const sum = map3(
+			positive(1),
+			positive(2),
+			positive(3),
+			(a, b, c) => a + b + c,
+		);
+		expect(sum).toBeOkWith(6);
+	});
+});
@@ -0,0 +1,183 @@
+/**
+ * Benchmarks of the core representation and the common combinators.
+ * Each case runs the current implementation against a copy of the original one,
+ * which built plain `{ type, value }` literals and combined lists by spreading the accumulator.
+ *
+ * Frozen values with a shared prototype cost more to create than plain literals,
+ * so the constructors and the combinators building new values are expected to be slower,
+ * while `all` and `none` are expected to be faster.
+ *
+ * Run with `bun run bench`.
+ * @module
+ */
+
+import * as option from "../src/option";
+import * as result from "../src/result";
+
+const baseline = {
+	ok<T>(value: T): result.Result<T, never> {
+		return { type: "ok", value };
+	},
+
+	some<T>(value: T): option.Option<T> {
+		return { type: "some", value };
+	},
+
+	none<T>(): option.Option<T> {
+		return { type: "none" };
+	},
+
+	result_map<T, E, U>(
+		item: result.Result<T, E>,
+		apply: (value: T) => U,
+	): result.Result<U, E> {
+		switch (item.type) {
+			case "ok":
+				return baseline.ok(apply(item.value));
+
+			default:
+				return item;
+		}
+	},
+
+	result_all<T, E>(
+		list: Array<result.Result<T, E>>,
+	): result.Result<Array<T>, E> {
+		return list.reduce<result.Result<Array<T>, E>>(
+			(acc, item) => {
+				if (acc.type === "err") {
+					return acc;
+				}
+
+				if (item.type === "err") {
+					return { type: "err", value: item.value };
+				}
+
+				return { type: "ok", value: [...acc.value, item.value] };
+			},
+			{ type: "ok", value: [] },
+		);
+	},
+
+	option_all<T>(list: Array<option.Option<T>>): option.Option<Array<T>> {
+		return list.reduce<option.Option<Array<T>>>(
+			(acc, item) => {
+				if (item.type === "none" || acc.type === "none") {
+					return { type: "none" };
+				}
+
+				return { type: "some", value: [...acc.value, item.value] };
+			},
+			{ type: "some", value: [] },
+		);
+	},
+};
+
+/**
+ * Measures the average time of a function over a number of runs, after a warm-up.
+ * @param {() => unknown} fn - The function to measure.
+ * @param {number} runs - The number of measured runs.
+ * @returns {number} The average duration of a run, in milliseconds.
+ */
+function measure(fn: () => unknown, runs: number): number {
+	for (let run = 0; run < Math.min(runs, 5); run++) {
+		fn();
+	}
+
+	const start = Bun.nanoseconds();
+
+	for (let run = 0; run < runs; run++) {
+		fn();
+	}
+
+	return (Bun.nanoseconds() - start) / runs / 1e6;
+}
+
+/**
+ * Runs a benchmark case and prints the timings of both implementations.
+ * @param {string} name - The name of the case.
+ * @param {number} runs - The number of measured runs.
+ * @param {() => unknown} before - The previous implementation.
+ * @param {() => unknown} after - The current implementation.
+ */
+function bench(
+	name: string,
+	runs: number,
+	before: () => unknown,
+	after: () => unknown,
+) {
+	const previous = measure(before, runs);
+	const current = measure(after, runs);
+	const change =
+		current <= previous
+			? `${(previous / current).toFixed(1)}x faster`
+			: `${(current / previous).toFixed(1)}x slower`;
+
+	console.log(
+		`${name.padEnd(32)} before ${previous.toFixed(3).padStart(10)}ms  after ${current.toFixed(3).padStart(10)}ms  (${change})`,
+	);
+}
+
+const size = 10_000;
+const indexes = Array.from({ length: size }, (_, index) => index);
+
+const results = indexes.map((index) => result.ok(index));
+const baseline_results = indexes.map((index) => baseline.ok(index));
+const options = indexes.map((index) => option.some(index));
+const baseline_options = indexes.map((index) => baseline.some(index));
+
+bench(
+	`result: ok x ${size}`,
+	50,
+	() => indexes.map(baseline.ok),
+	() => indexes.map(result.ok),
+);
+
+bench(
+	`result: map x ${size}`,
+	50,
+	() =>
+		baseline_results.map((item) => baseline.result_map(item, (n) => n + 1)),
+	() => results.map((item) => result.map(item, (n) => n + 1)),
+);
+
+bench(
+	`result: all x ${size}`,
+	5,
+	() => baseline.result_all(baseline_results),
+	() => result.all(results),
+);
+
+bench(
+	`option: some x ${size}`,
+	50,
+	() => indexes.map(baseline.some),
+	() => indexes.map(option.some),
+);
+
+bench(
+	`option: none x ${size}`,
+	50,
+	() => indexes.map(() => baseline.none()),
+	() => indexes.map(() => option.none()),
+);
+
+bench(
+	`option: from_nullable x ${size}`,
+	50,
+	() =>
+		indexes.map((index) =>
+			index % 2 === 0 ? baseline.some(index) : baseline.none(),
+		),
+	() =>
+		indexes.map((index) =>
+			option.from_nullable(index % 2 === 0 ? index : null),
+		),
+);
+
+bench(
+	`option: all x ${size}`,
+	5,
+	() => baseline.option_all(baseline_options),
+	() => option.all(options),
+);
@@ -1,7 +1,29 @@
 import dts from "bun-plugin-dts";
 
 await Bun.build({
-	entrypoints: ["./src/option.ts", "./src/result.ts"],
+	entrypoints: [
+		"./src/option.ts",
+		"./src/result.ts",
+		"./src/async-result.ts",
+		"./src/validation.ts",
+		"./src/tagged-error.ts",
+		"./src/context.ts",
+		"./src/json.ts",
+		"./src/decode.ts",
+		"./src/standard-schema.ts",
+		"./src/iterable.ts",
+		"./src/async-iterable.ts",
+		"./src/retry.ts",
+		"./src/resource.ts",
+		"./src/pipe.ts",
+		"./src/curried-result.ts",
+		"./src/curried-option.ts",
+		"./src/testing.ts",
+		"./src/safe.ts",
+		"./src/task.ts",
+	],
+	root: "./src",
 	outdir: "./dist",
+	splitting: true,
 	plugins: [dts()],
 });
@@ -0,0 +1,158 @@
+import type { AsyncResult, Awaitable } from "./async-result";
+import { derived_err, ok, type Result } from "./result";
+import type { NonEmptyArray, Validation } from "./validation";
+
+/**
+ * A sequence of values that can be iterated with `for await`, i.e. an async iterable or a plain iterable.
+ * @template T - The type of the values.
+ */
+export type AnyIterable<T> = AsyncIterable<T> | Iterable<T>;
+
+/**
+ * Lazily transforms the successful values of a stream of `Result`s using a mapping function which may be async.
+ * `Err` items are passed through unchanged. Nothing is consumed until the returned iterable is iterated.
+ * @template T - The original type of the successful values.
+ * @template E - The type of the error values.
+ * @template U - The new type of the successful values.
+ * @param {AnyIterable<Result<T, E>>} iterable - The stream of results to map.
+ * @param {(value: T) => Awaitable<U>} apply - The function to apply to each successful value.
+ * @returns {AsyncIterable<Result<U, E>>} A lazy stream of the mapped results.
+ */
+export async function* map_ok<T, E, U>(
+	iterable: AnyIterable<Result<T, E>>,
+	apply: (value: T) => Awaitable<U>,
+): AsyncIterable<Result<U, E>> {
+	for await (const result of iterable) {
+		yield result.type === "ok" ? ok(await apply(result.value)) : result;
+	}
+}
+
+/**
+ * Lazily drops the `Ok` items of a stream whose value doesn't pass `predicate`, which may be async.
+ * `Err` items are always kept, so no error is lost. Type guards narrow the type of the successful values.
+ * @template T - The type of the successful values.
+ * @template E - The type of the error values.
+ * @param {AnyIterable<Result<T, E>>} iterable - The stream of results to filter.
+ * @param {(value: T) => Awaitable<boolean>} predicate - The check a successful value must pass to be kept.
+ * @returns {AsyncIterable<Result<T, E>>} A lazy stream of the kept results.
+ */
+export function filter_ok<T, E, U extends T>(
+	iterable: AnyIterable<Result<T, E>>,
+	predicate: (value: T) => value is U,
+): AsyncIterable<Result<U, E>>;
+export function filter_ok<T, E>(
+	iterable: AnyIterable<Result<T, E>>,
+	predicate: (value: T) => Awaitable<boolean>,
+): AsyncIterable<Result<T, E>>;
+export async function* filter_ok<T, E>(
+	iterable: AnyIterable<Result<T, E>>,
+	predicate: (value: T) => Awaitable<boolean>,
+): AsyncIterable<Result<T, E>> {
+	for await (const result of iterable) {
+		if (result.type === "err" || (await predicate(result.value))) {
+			yield result;
+		}
+	}
+}
+
+/**
+ * Lazily yields the items of a stream up to and including its first `Err`.
+ * The `Err` itself is kept so the reason for stopping isn't lost, and the rest of the stream is never consumed.
+ * @template T - The type of the successful values.
+ * @template E - The type of the error values.
+ * @param {AnyIterable<Result<T, E>>} iterable - The stream of results to take from.
+ * @returns {AsyncIterable<Result<T, E>>} A lazy stream ending after the first `Err`.
+ */
+export async function* take_while_ok<T, E>(
+	iterable: AnyIterable<Result<T, E>>,
+): AsyncIterable<Result<T, E>> {
+	for await (const result of iterable) {
+		yield result;
+
+		if (result.type === "err") {
+			return;
+		}
+	}
+}
+
+/**
+ * Consumes a stream of `Result`s into a single `Result` containing an array of successful values.
+ * Consumption stops at the first `Err`, which is returned, and the stream is closed.
+ * @template T - The type of the successful values.
+ * @template E - The type of the error values.
+ * @param {AnyIterable<Result<T, E>>} iterable - The stream of results to collect.
+ * @returns {AsyncResult<Array<T>, E>} An `Ok` with every successful value, or the first `Err` encountered.
+ */
+export async function collect<T, E>(
+	iterable: AnyIterable<Result<T, E>>,
+): AsyncResult<Array<T>, E> {
+	const values: Array<T> = [];
+
+	for await (const result of iterable) {
+		if (result.type === "err") {
+			return result;
+		}
+
+		values.push(result.value);
+	}
+
+	return ok(values);
+}
+
+/**
+ * Consumes a stream of `Result`s into a `Validation`, keeping every error instead of stopping at the first one.
+ * @template T - The type of the successful values.
+ * @template E - The type of the error values.
+ * @param {AnyIterable<Result<T, E>>} iterable - The stream of results to collect.
+ * @returns {Promise<Validation<Array<T>, E>>} An `Ok` with every successful value, or an `Err` with every error value.
+ */
+export async function collect_all_errors<T, E>(
+	iterable: AnyIterable<Result<T, E>>,
+): Promise<Validation<Array<T>, E>> {
+	const [values, errors] = await split(iterable);
+
+	return errors.length > 0
+		? derived_err(errors as NonEmptyArray<E>)
+		: ok(values);
+}
+
+/**
+ * Splits a stream of `Result`s into the successful values and the error values, in the order of the stream.
+ * @template T - The type of the successful values.
+ * @template E - The type of the error values.
+ * @param {AnyIterable<Result<T, E>>} iterable - The stream of results to split.
+ * @returns {Promise<[Array<T>, Array<E>]>} A tuple of all successful values and all error values.
+ */
+async function split<T, E>(
+	iterable: AnyIterable<Result<T, E>>,
+): Promise<[Array<T>, Array<E>]> {
+	const values: Array<T> = [];
+	const errors: Array<E> = [];
+
+	for await (const result of iterable) {
+		if (result.type === "ok") {
+			values.push(result.value);
+		} else {
+			errors.push(result.value);
+		}
+	}
+
+	return [values, errors];
+}
+
+/**
+ * Consumes a stream of `Result`s, splitting it into the successful values and the error values.
+ * Like `partition` of the result module and Gleam, both arrays come back in the reverse order of the stream,
+ * use `collect_all_errors` to keep the order.
+ * @template T - The type of the successful values.
+ * @template E - The type of the error values.
+ * @param {AnyIterable<Result<T, E>>} iterable - The stream of results to split.
+ * @returns {Promise<[Array<T>, Array<E>]>} A tuple of all successful values and all error values, in reverse order.
+ */
+export async function partition<T, E>(
+	iterable: AnyIterable<Result<T, E>>,
+): Promise<[Array<T>, Array<E>]> {
+	const [values, errors] = await split(iterable);
+
+	return [values.reverse(), errors.reverse()];
+}
@@ -0,0 +1,363 @@
+import {
+	all as all_results,
+	derived_err,
+	err,
+	ok,
+	unwrap as unwrap_result,
+	type Err,
+	type ErrorOf,
+	type Result,
+} from "./result";
+
+/**
+ * A value that is either available right away or wrapped in a `Promise`.
+ * @template T - The type of the value.
+ */
+export type Awaitable<T> = T | Promise<T>;
+
+/**
+ * An AsyncResult is a `Promise` that always resolves to a `Result`.
+ * It never rejects as long as it was produced by this module.
+ * @template T - The type of the successful value.
+ * @template E - The type of the error value.
+ */
+export type AsyncResult<T, E> = Promise<Result<T, E>>;
+
+/**
+ * Converts a `Promise` into an `AsyncResult`.
+ * A resolved promise becomes an `Ok` result, a rejected one becomes an `Err` result
+ * holding the rejection reason mapped through `on_reject`.
+ * @template T - The type of the resolved value.
+ * @template E - The type of the error value.
+ * @param {Promise<T>} promise - The promise to convert.
+ * @param {(reason: unknown) => E} on_reject - The function to map the rejection reason to an error value.
+ * @returns {AsyncResult<T, E>} A promise resolving to an `Ok` with the resolved value, or an `Err` with the mapped reason.
+ */
+export async function from_promise<T, E>(
+	promise: Promise<T>,
+	on_reject: (reason: unknown) => E,
+): AsyncResult<T, E> {
+	try {
+		return ok(await promise);
+	} catch (reason) {
+		return err(on_reject(reason));
+	}
+}
+
+/**
+ * Extracts the successful value from an `Ok` result, or returns a default value if it's an `Err`.
+ * @template T - The type of the successful value.
+ * @template E - The type of the error value.
+ * @param {Awaitable<Result<T, E>>} result - The result, or a promise of it, from which to unwrap the value.
+ * @param {T} with_default - The default value to return if the result is an `Err`.
+ * @returns {Promise<T>} The successful value if `result` is `Ok`, otherwise `with_default`.
+ */
+export async function unwrap<T, E>(
+	result: Awaitable<Result<T, E>>,
+	with_default: T,
+): Promise<T> {
+	return unwrap_result(await result, with_default);
+}
+
+/**
+ * Transforms the successful value of a `Result` using a mapping function which may be async.
+ * If the result is `Ok`, the awaited return value of `apply` is wrapped in a new `Ok` result.
+ * If the result is `Err`, it is returned unchanged.
+ * @template T - The original type of the successful value.
+ * @template E - The type of the error value.
+ * @template U - The new type of the successful value after transformation.
+ * @param {Awaitable<Result<T, E>>} result - The result, or a promise of it, to map.
+ * @param {(value: T) => Awaitable<U>} apply - The function to apply to the successful value.
+ * @returns {AsyncResult<U, E>} A new `Result` with the mapped successful value, or the original `Err`.
+ */
+export async function map<T, E, U>(
+	result: Awaitable<Result<T, E>>,
+	apply: (value: T) => Awaitable<U>,
+): AsyncResult<U, E> {
+	const resolved = await result;
+
+	switch (resolved.type) {
+		case "ok":
+			return ok(await apply(resolved.value));
+
+		default:
+			return resolved;
+	}
+}
+
+/**
+ * Transforms the error value of a `Result` using a mapping function which may be async.
+ * If the result is `Err`, the awaited return value of `apply` is wrapped in a new `Err` result.
+ * If the result is `Ok`, it is returned unchanged.
+ * @template T - The type of the successful value.
+ * @template E - The original type of the error value.
+ * @template U - The new type of the error value after transformation.
+ * @param {Awaitable<Result<T, E>>} result - The result, or a promise of it, whose error value to map.
+ * @param {(value: E) => Awaitable<U>} apply - The function to apply to the error value.
+ * @returns {AsyncResult<T, U>} A new `Result` with the mapped error value, or the original `Ok`.
+ */
+export async function map_error<T, E, U>(
+	result: Awaitable<Result<T, E>>,
+	apply: (value: E) => Awaitable<U>,
+): AsyncResult<T, U> {
+	const resolved = await result;
+
+	switch (resolved.type) {
+		case "err":
+			return derived_err(await apply(resolved.value));
+
+		default:
+			return resolved;
+	}
+}
+
+/**
+ * Returns the first `Ok` result from two `Result` inputs, either of which may be a promise.
+ * If the `left` result is `Ok`, it is returned. Otherwise, the `right` result is returned.
+ * @template T - The type of the successful value.
+ * @template E - The type of the error value.
+ * @param {Awaitable<Result<T, E>>} left - The primary result.
+ * @param {Awaitable<Result<T, E>>} right - The fallback result.
+ * @returns {AsyncResult<T, E>} The `left` result if it's `Ok`, otherwise the `right` result.
+ */
+export async function or<T, E>(
+	left: Awaitable<Result<T, E>>,
+	right: Awaitable<Result<T, E>>,
+): AsyncResult<T, E> {
+	const resolved = await left;
+
+	if (resolved.type === "ok") {
+		return resolved;
+	}
+
+	return right;
+}
+
+/**
+ * Chains a function that returns a `Result`, or a promise of one, to an existing `Result`.
+ * If the `result` is `Ok`, the `apply` function is called with its value, and its awaited `Result` is returned.
+ * If the `result` is `Err`, it is returned unchanged.
+ * @template T - The original type of the successful value.
+ * @template U - The new type of the successful value after chaining.
+ * @template E - The type of the error value.
+ * @param {Awaitable<Result<T, E>>} result - The initial result, or a promise of it.
+ * @param {(value: T) => Awaitable<Result<U, E>>} apply - The function to apply to the successful value.
+ * @returns {AsyncResult<U, E>} A new `Result` from the chained operation, or the original `Err`.
+ */
+export async function then<T, U, E>(
+	result: Awaitable<Result<T, E>>,
+	apply: (value: T) => Awaitable<Result<U, E>>,
+): AsyncResult<U, E> {
+	const resolved = await result;
+
+	switch (resolved.type) {
+		case "ok":
+			return apply(resolved.value);
+
+		default:
+			return resolved;
+	}
+}
+
+/**
+ * Combines an array of `Result`s, or promises of them, into a single `Result` containing an array of successful values.
+ * All promises are awaited concurrently. If all results are `Ok`, returns an `Ok` result containing
+ * an array of all successful values in the original order. Otherwise returns the first `Err` in list order.
+ * @template T - The type of the successful value within each `Result`.
+ * @template E - The type of the error value within each `Result`.
+ * @param {Array<Awaitable<Result<T, E>>>} list - An array of `Result`s or promises of them.
+ * @returns {AsyncResult<Array<T>, E>} An `Ok` result with an array of values if all were `Ok`, or the first `Err` encountered.
+ */
+export async function all<T, E>(
+	list: Array<Awaitable<Result<T, E>>>,
+): AsyncResult<Array<T>, E> {
+	return all_results(await Promise.all(list));
+}
+
+/**
+ * Awaits an array of `Result`s, or promises of them, concurrently and returns every outcome.
+ * Unlike `all`, an `Err` doesn't hide the other results, and a rejected promise doesn't reject the returned one:
+ * it becomes an `Err` holding the rejection reason mapped through `on_reject`, like with `from_promise`.
+ * @template T - The type of the successful value within each `Result`.
+ * @template E - The type of the error value within each `Result`.
+ * @template F - The type of the error value of a rejected promise.
+ * @param {Array<Awaitable<Result<T, E>>>} list - An array of `Result`s or promises of them.
+ * @param {(reason: unknown) => F} on_reject - The function to map a rejection reason to an error value.
+ * @returns {Promise<Array<Result<T, E | F>>>} Every `Result`, in the original order.
+ */
+export async function all_settled<T, E, F>(
+	list: Array<Awaitable<Result<T, E>>>,
+	on_reject: (reason: unknown) => F,
+): Promise<Array<Result<T, E | F>>> {
+	const outcomes = await Promise.allSettled(list);
+
+	return outcomes.map((outcome) =>
+		outcome.status === "fulfilled"
+			? outcome.value
+			: err(on_reject(outcome.reason)),
+	);
+}
+
+/**
+ * Returns the first `Result` to settle among several promises of them, whether it is `Ok` or `Err`.
+ * An empty list never settles.
+ * @template T - The type of the successful value within each `Result`.
+ * @template E - The type of the error value within each `Result`.
+ * @param {Array<Awaitable<Result<T, E>>>} list - An array of `Result`s or promises of them.
+ * @returns {AsyncResult<T, E>} The first `Result` to settle.
+ */
+export async function race<T, E>(
+	list: Array<Awaitable<Result<T, E>>>,
+): AsyncResult<T, E> {
+	return Promise.race(list);
+}
+
+/**
+ * Returns the first `Ok` to settle among several promises of `Result`s.
+ * If every result is an `Err`, returns an `Err` holding all error values in the original order.
+ * A rejected promise counts as an `Err` holding the rejection reason mapped through `on_reject`, like with `all_settled`.
+ * @template T - The type of the successful value within each `Result`.
+ * @template E - The type of the error value within each `Result`.
+ * @template F - The type of the error value of a rejected promise.
+ * @param {Array<Awaitable<Result<T, E>>>} list - An array of `Result`s or promises of them.
+ * @param {(reason: unknown) => F} on_reject - The function to map a rejection reason to an error value.
+ * @returns {AsyncResult<T, Array<E | F>>} The first `Ok` to settle, or an `Err` with every error value.
+ */
+export function any<T, E, F>(
+	list: Array<Awaitable<Result<T, E>>>,
+	on_reject: (reason: unknown) => F,
+): AsyncResult<T, Array<E | F>> {
+	return new Promise((resolve) => {
+		const errors = new Array<E | F>(list.length);
+		let remaining = list.length;
+
+		const fail = (index: number, error: E | F) => {
+			errors[index] = error;
+			remaining--;
+
+			if (remaining === 0) {
+				resolve(derived_err(errors));
+			}
+		};
+
+		if (remaining === 0) {
+			resolve(derived_err(errors));
+		}
+
+		list.forEach((item, index) => {
+			Promise.resolve(item).then(
+				(result) => {
+					if (result.type === "ok") {
+						resolve(result);
+						return;
+					}
+
+					fail(index, result.value);
+				},
+				(reason) => fail(index, on_reject(reason)),
+			);
+		});
+	});
+}
+
+/**
+ * Options of `traverse`.
+ */
+export type TraverseOptions = {
+	/** The maximum number of calls running at the same time, a positive integer or `Infinity`. Defaults to `Infinity`. */
+	concurrency?: number;
+};
+
+/**
+ * Runs an async function returning a `Result` over every item of an array, with a limit on concurrent calls.
+ * On the first `Err` to settle, no further call is started, the signal passed to running calls is aborted,
+ * and the `Err` is returned without waiting for them.
+ * @example
+ * const users = await traverse(ids, (id, index, signal) => fetch_user(id, { signal }), { concurrency: 4 });
+ * @template A - The type of the items.
+ * @template T - The type of the successful value returned by `fn`.
+ * @template E - The type of the error value returned by `fn`.
+ * @param {ReadonlyArray<A>} items - The items to run `fn` over.
+ * @param {(item: A, index: number, signal: AbortSignal) => AsyncResult<T, E>} fn - The function to run over each item.
+ * @param {TraverseOptions} [options] - The options limiting concurrency.
+ * @returns {AsyncResult<Array<T>, E>} An `Ok` with the values in the order of `items`, or the first `Err` to settle.
+ * @throws {RangeError} If `concurrency` is neither a positive integer nor `Infinity`.
+ */
+export function traverse<A, T, E>(
+	items: ReadonlyArray<A>,
+	fn: (item: A, index: number, signal: AbortSignal) => AsyncResult<T, E>,
+	options: TraverseOptions = {},
+): AsyncResult<Array<T>, E> {
+	const { concurrency = Number.POSITIVE_INFINITY } = options;
+
+	if (
+		concurrency !== Number.POSITIVE_INFINITY &&
+		!(Number.isInteger(concurrency) && concurrency >= 1)
+	) {
+		throw new RangeError(
+			`concurrency must be a positive integer or Infinity, got ${concurrency}`,
+		);
+	}
+
+	const controller = new AbortController();
+	const values = new Array<T>(items.length);
+	let next = 0;
+
+	return new Promise((resolve, reject) => {
+		const worker = async () => {
+			while (!controller.signal.aborted && next < items.length) {
+				const index = next++;
+				const result = await fn(items[index] as A, index, controller.signal);
+
+				if (result.type === "err") {
+					controller.abort();
+					resolve(result);
+					return;
+				}
+
+				values[index] = result.value;
+			}
+		};
+
+		const workers = Math.max(1, Math.min(concurrency, items.length));
+
+		Promise.all(Array.from({ length: workers }, worker)).then(
+			() => resolve(ok(values)),
+			(reason) => {
+				controller.abort();
+				reject(reason);
+			},
+		);
+	});
+}
+
+/**
+ * Async variant of `gen` from the result module, for sequences of awaited fallible steps.
+ * Inside the async generator, `yield* bind(await promise)` on a promise of a `Result` evaluates to its successful value,
+ * or stops the generator at the first `Err`, which is then returned. `bind` is the one of the result module.
+ * @example
+ * const profile = await gen(async function* () {
+ * 	const user = yield* bind(await fetch_user(id));
+ * 	const settings = yield* bind(await fetch_settings(user));
+ * 	return { user, settings };
+ * });
+ * @template Y - The `Err` types yielded by the generator.
+ * @template T - The return type of the generator.
+ * @param {() => AsyncGenerator<Y, T, unknown>} body - The async generator function to run.
+ * @returns {AsyncResult<T, ErrorOf<Y>>} An `Ok` result with the return value, or the first `Err` encountered.
+ */
+export async function gen<Y extends Err<unknown>, T>(
+	body: () => AsyncGenerator<Y, T, unknown>,
+): AsyncResult<T, ErrorOf<Y>> {
+	const iterator = body();
+	const step = await iterator.next();
+
+	if (step.done) {
+		return ok(step.value);
+	}
+
+	// let `finally` blocks inside the generator run
+	await iterator.return(undefined as T);
+
+	return step.value as Err<ErrorOf<Y>>;
+}
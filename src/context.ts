@@ -0,0 +1,131 @@
+import { map_error, type Result } from "./result";
+
+/**
+ * ContextError is a node of an error chain, describing what was being done when `cause` happened.
+ * It is a native `Error`, so `cause` is the standard `Error.cause` and the chain can be walked
+ * the same way for errors that were thrown and errors that were returned in an `Err`.
+ * @template E - The type of the wrapped error value.
+ */
+export class ContextError<E = unknown> extends Error {
+	declare readonly cause: E;
+
+	override readonly name = "ContextError";
+
+	/**
+	 * @param {string} message - A message describing what failed.
+	 * @param {E} cause - The wrapped error value.
+	 */
+	constructor(message: string, cause: E) {
+		super(message, { cause });
+	}
+}
+
+/**
+ * Wraps the error value of an `Err` result in a `ContextError` with the given message.
+ * If the result is `Ok`, it is returned unchanged.
+ * @template T - The type of the successful value.
+ * @template E - The type of the error value.
+ * @param {Result<T, E>} result - The result whose error to wrap.
+ * @param {string} message - A message describing what was being done.
+ * @returns {Result<T, ContextError<E>>} The original `Ok`, or an `Err` holding the wrapped error.
+ */
+export function context<T, E>(
+	result: Result<T, E>,
+	message: string,
+): Result<T, ContextError<E>> {
+	return map_error(result, (error) => new ContextError(message, error));
+}
+
+/**
+ * Wraps the error value of an `Err` result in a `ContextError` with a lazily built message.
+ * The `message` function is only called if the result is `Err`.
+ * @template T - The type of the successful value.
+ * @template E - The type of the error value.
+ * @param {Result<T, E>} result - The result whose error to wrap.
+ * @param {() => string} message - The function building a message describing what was being done.
+ * @returns {Result<T, ContextError<E>>} The original `Ok`, or an `Err` holding the wrapped error.
+ */
+export function with_context<T, E>(
+	result: Result<T, E>,
+	message: () => string,
+): Result<T, ContextError<E>> {
+	return map_error(result, (error) => new ContextError(message(), error));
+}
+
+/**
+ * Lists an error and all of its causes, following the native `cause` property of errors.
+ * The chain stops at the first value without a cause, or when a cause was already visited.
+ * @param {unknown} error - The outermost error.
+ * @returns {Array<unknown>} The error followed by each of its causes, outermost first.
+ */
+export function causes(error: unknown): Array<unknown> {
+	const chain: Array<unknown> = [error];
+	let current = error;
+
+	while (current instanceof Error && current.cause !== undefined) {
+		if (chain.includes(current.cause)) {
+			break;
+		}
+
+		current = current.cause;
+		chain.push(current);
+	}
+
+	return chain;
+}
+
+/**
+ * Finds the innermost cause of an error, following the native `cause` property of errors.
+ * @param {unknown} error - The outermost error.
+ * @returns {unknown} The last error of the chain, which is `error` itself if it has no cause.
+ */
+export function root_cause(error: unknown): unknown {
+	const chain = causes(error);
+
+	return chain[chain.length - 1];
+}
+
+/**
+ * Describes a single node of an error chain on one line.
+ * @param {unknown} error - The error to describe.
+ * @returns {string} The message of an `Error`, or a string representation of any other value.
+ */
+function describe(error: unknown): string {
+	if (error instanceof Error) {
+		return error.message || error.name;
+	}
+
+	if (typeof error === "string") {
+		return error;
+	}
+
+	try {
+		return JSON.stringify(error) ?? String(error);
+	} catch {
+		return String(error);
+	}
+}
+
+/**
+ * Renders an error and its causes as a readable multi-line report.
+ * @example
+ * report(error);
+ * // failed to load config
+ * //
+ * // Caused by:
+ * //     0: failed to read config.json
+ * //     1: ENOENT: no such file or directory
+ * @param {unknown} error - The outermost error.
+ * @returns {string} The message of `error`, followed by a numbered list of its causes if it has any.
+ */
+export function report(error: unknown): string {
+	const [outermost = "", ...rest] = causes(error).map(describe);
+
+	if (rest.length === 0) {
+		return outermost;
+	}
+
+	const lines = rest.map((cause, index) => `    ${index}: ${cause}`);
+
+	return [outermost, "", "Caused by:", ...lines].join("\n");
+}
@@ -0,0 +1,215 @@
+/**
+ * Data-last, curried variants of the option module, meant to be composed with `pipe` and `flow`.
+ * Every function taking an option plus other arguments here takes the other arguments first
+ * and returns a function of the option, e.g. `map(fn)(option)` instead of `map(option, fn)`.
+ * Functions taking nothing but an option, constructors and comparators are re-exported unchanged.
+ * @example
+ * pipe(
+ *   from_nullable(user),
+ *   get("address", "city"),
+ *   unwrap("unknown"),
+ * );
+ * @module
+ */
+
+import * as data_first from "./option";
+import type { Option } from "./option";
+import type { Result } from "./result";
+
+export {
+	all,
+	all_record,
+	bind,
+	compare,
+	equals,
+	flatten,
+	from_falsy,
+	from_nullable,
+	from_result,
+	gen,
+	gen_async,
+	is_none,
+	is_option,
+	is_some,
+	none,
+	some,
+	to_nullable,
+	to_string,
+	to_undefined,
+	unwrap_or_throw,
+	values,
+	UnwrapError,
+	type Falsy,
+	type None,
+	type Option,
+	type Some,
+	type ValueOf,
+} from "./option";
+
+/**
+ * an object type having an optional, possibly nullable, property at every key of a path
+ */
+type Shape<P> = P extends readonly [infer K extends PropertyKey, ...infer Rest]
+	? { readonly [key in K]?: Shape<Rest> | null }
+	: unknown;
+
+/**
+ * type of the value at the end of a path, without null and undefined
+ */
+type At<T, P> = P extends readonly [infer K, ...infer Rest]
+	? K extends keyof NonNullable<T>
+		? At<NonNullable<T>[K], Rest>
+		: never
+	: NonNullable<T>;
+
+/**
+ * Data-last variant of `from_predicate`, type guards narrow the type of the option.
+ * @param predicate - predicate or type guard the value must pass
+ * @returns a function creating a some option if its value passes the predicate, otherwise a none option
+ */
+export function from_predicate<T, U extends T>(
+	predicate: (value: T) => value is U,
+): (value: T) => Option<U>;
+export function from_predicate<T>(
+	predicate: (value: T) => boolean,
+): (value: T) => Option<T>;
+export function from_predicate<T>(
+	predicate: (value: T) => boolean,
+): (value: T) => Option<T> {
+	return (value) => data_first.from_predicate(value, predicate);
+}
+
+/**
+ * Data-last variant of `get`, the keys are checked against the object once it is piped in.
+ * @param path - The property keys to follow, one per level.
+ * @returns A function reading the path from its object.
+ * @example
+ * pipe(config, get("server", "port")) // Option<number>
+ */
+export function get<const P extends ReadonlyArray<PropertyKey>>(
+	...path: P
+): <T extends Shape<P> | null | undefined>(object: T) => Option<At<T, P>> {
+	const read = data_first.get as (
+		object: unknown,
+		...path: ReadonlyArray<PropertyKey>
+	) => Option<never>;
+
+	return (object) => read(object, ...path);
+}
+
+/**
+ * Data-last variant of `match`.
+ * @param handlers - `some` is called with the value of a 'some' Option, `none` is called for a 'none' Option.
+ * @returns A function calling the handler matching its option.
+ */
+export function match<T, U>(handlers: {
+	some: (value: T) => U;
+	none: () => U;
+}): (option: Option<T>) => U {
+	return (option) => data_first.match(option, handlers);
+}
+
+/**
+ * Data-last variant of `unwrap`.
+ * @param with_default - The default value to return if the option is 'none'.
+ * @returns A function returning the value from 'some' or the default value.
+ */
+export function unwrap<T>(with_default: T): (option: Option<T>) => T {
+	return (option) => data_first.unwrap(option, with_default);
+}
+
+/**
+ * Data-last variant of `lazy_unwrap`.
+ * @param with_default - The function computing the default value if the option is 'none'.
+ * @returns A function returning the value from 'some' or the computed default value.
+ */
+export function lazy_unwrap<T>(
+	with_default: () => T,
+): (option: Option<T>) => T {
+	return (option) => data_first.lazy_unwrap(option, with_default);
+}
+
+/**
+ * Data-last variant of `expect`.
+ * @param message - The message of the `UnwrapError` thrown if the option is 'none'.
+ * @returns A function returning the value from 'some', or throwing.
+ */
+export function expect(message: string): <T>(option: Option<T>) => T {
+	return (option) => data_first.expect(option, message);
+}
+
+/**
+ * Data-last variant of `map`.
+ * @param apply - The function to apply to the value of a 'some' Option.
+ * @returns A function mapping the value of its option.
+ */
+export function map<T, U>(
+	apply: (value: T) => U,
+): (option: Option<T>) => Option<U> {
+	return (option) => data_first.map(option, apply);
+}
+
+/**
+ * Data-last variant of `tap`.
+ * @param apply - The function to call with the value of a 'some' Option.
+ * @returns A function calling `apply` and returning its option unchanged.
+ */
+export function tap<T>(
+	apply: (value: T) => void,
+): (option: Option<T>) => Option<T> {
+	return (option) => data_first.tap(option, apply);
+}
+
+/**
+ * Data-last variant of `tap_none`.
+ * @param apply - The function to call for a 'none' Option.
+ * @returns A function calling `apply` and returning its option unchanged.
+ */
+export function tap_none(
+	apply: () => void,
+): <T>(option: Option<T>) => Option<T> {
+	return (option) => data_first.tap_none(option, apply);
+}
+
+/**
+ * Data-last variant of `then`.
+ * @param apply - The function returning an Option, chained on the value of a 'some' Option.
+ * @returns A function chaining `apply` on its option.
+ */
+export function then<T, U>(
+	apply: (value: T) => Option<U>,
+): (option: Option<T>) => Option<U> {
+	return (option) => data_first.then(option, apply);
+}
+
+/**
+ * Data-last variant of `or`, the fallback may have a different type than the piped option.
+ * @param second - The Option to return if the piped option is 'none'.
+ * @returns A function returning its option if 'some', or `second`.
+ */
+export function or<U>(
+	second: Option<U>,
+): <T>(first: Option<T>) => Option<T | U> {
+	return <T>(first: Option<T>) => (data_first.is_some(first) ? first : second);
+}
+
+/**
+ * Data-last variant of `lazy_or`, the fallback may have a different type than the piped option.
+ * @param second - The function computing the Option to return if the piped option is 'none'.
+ * @returns A function returning its option if 'some', or the computed one.
+ */
+export function lazy_or<U>(
+	second: () => Option<U>,
+): <T>(first: Option<T>) => Option<T | U> {
+	return <T>(first: Option<T>) =>
+		data_first.is_some(first) ? first : second();
+}
+
+/**
+ * Data-last variant of `to_result`.
+ * @param error - The error value of the Result if the option is 'none'.
+ * @returns A function converting its option into a Result.
+ */
+export function to_result<E>(error: E): <T>(option: Option<T>) => Result<T, E> {
+	return (option) => data_first.to_result(option, error);
+}
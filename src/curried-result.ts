@@ -0,0 +1,278 @@
+/**
+ * Data-last, curried variants of the result module, meant to be composed with `pipe` and `flow`.
+ * Every function taking a result plus other arguments here takes the other arguments first
+ * and returns a function of the result, e.g. `map(fn)(result)` instead of `map(result, fn)`.
+ * Functions taking nothing but a result, constructors and comparators are re-exported unchanged.
+ * @example
+ * pipe(
+ *   parse_port(input),
+ *   map((port) => port + 1),
+ *   unwrap(8080),
+ * );
+ * @module
+ */
+
+import * as data_first from "./result";
+import type { ErrorHandlers, Result, TaggedError } from "./result";
+
+export {
+	all,
+	all_record,
+	bind,
+	compare,
+	creation_stack,
+	equals,
+	err,
+	flatten,
+	from_throwable,
+	gen,
+	is_err,
+	is_ok,
+	is_result,
+	nil_error,
+	ok,
+	partition,
+	to_string,
+	try_call,
+	unwrap_both,
+	unwrap_or_throw,
+	values,
+	UnwrapError,
+	type Err,
+	type ErrorHandlers,
+	type ErrorOf,
+	type Ok,
+	type Result,
+	type TaggedError,
+	type ValueOf,
+} from "./result";
+
+/**
+ * Data-last variant of `match`.
+ * @template T - The type of the successful value.
+ * @template E - The type of the error value.
+ * @template U - The return type of the handlers.
+ * @param {{ ok: (value: T) => U; err: (value: E) => U }} handlers - The functions handling each variant.
+ * @returns {(result: Result<T, E>) => U} A function calling the handler matching its result.
+ */
+export function match<T, E, U>(handlers: {
+	ok: (value: T) => U;
+	err: (value: E) => U;
+}): (result: Result<T, E>) => U {
+	return (result) => data_first.match(result, handlers);
+}
+
+/**
+ * Data-last variant of `match_error`.
+ * @template E - The discriminated union of error values.
+ * @template H - The functions handling each variant of the error.
+ * @param {H} handlers - The functions handling each variant of the error, keyed by tag.
+ * @returns {<T>(result: Result<T, E>) => T | ReturnType<H[E["type"]]>} A function returning the successful value, or the result of the matching handler.
+ */
+export function match_error<E extends TaggedError, H extends ErrorHandlers<E>>(
+	handlers: H,
+): <T>(result: Result<T, E>) => T | ReturnType<H[E["type"]]> {
+	return (result) => data_first.match_error(result, handlers);
+}
+
+/**
+ * Data-last variant of `unwrap`.
+ * @template T - The type of the successful value.
+ * @param {T} with_default - The default value to return if the result is an `Err`.
+ * @returns {<E>(result: Result<T, E>) => T} A function returning the successful value, or `with_default`.
+ */
+export function unwrap<T>(with_default: T): <E>(result: Result<T, E>) => T {
+	return (result) => data_first.unwrap(result, with_default);
+}
+
+/**
+ * Data-last variant of `expect`.
+ * @param {string} message - The message of the `UnwrapError` thrown if the result is an `Err`.
+ * @returns {<T, E>(result: Result<T, E>) => T} A function returning the successful value, or throwing.
+ */
+export function expect(message: string): <T, E>(result: Result<T, E>) => T {
+	return (result) => data_first.expect(result, message);
+}
+
+/**
+ * Data-last variant of `unwrap_error`.
+ * @template E - The type of the error value.
+ * @param {E} with_default - The default value to return if the result is `Ok`.
+ * @returns {<T>(result: Result<T, E>) => E} A function returning the error value, or `with_default`.
+ */
+export function unwrap_error<E>(
+	with_default: E,
+): <T>(result: Result<T, E>) => E {
+	return (result) => data_first.unwrap_error(result, with_default);
+}
+
+/**
+ * Data-last variant of `lazy_unwrap`.
+ * @template T - The type of the successful value.
+ * @param {() => T} with_default - The function computing the default value if the result is an `Err`.
+ * @returns {<E>(result: Result<T, E>) => T} A function returning the successful value, or the computed default.
+ */
+export function lazy_unwrap<T>(
+	with_default: () => T,
+): <E>(result: Result<T, E>) => T {
+	return (result) => data_first.lazy_unwrap(result, with_default);
+}
+
+/**
+ * Data-last variant of `map`.
+ * @template T - The original type of the successful value.
+ * @template U - The new type of the successful value.
+ * @param {(value: T) => U} apply - The function to apply to the successful value.
+ * @returns {<E>(result: Result<T, E>) => Result<U, E>} A function mapping the successful value of its result.
+ */
+export function map<T, U>(
+	apply: (value: T) => U,
+): <E>(result: Result<T, E>) => Result<U, E> {
+	return (result) => data_first.map(result, apply);
+}
+
+/**
+ * Data-last variant of `map_error`.
+ * @template E - The original type of the error value.
+ * @template F - The new type of the error value.
+ * @param {(value: E) => F} apply - The function to apply to the error value.
+ * @returns {<T>(result: Result<T, E>) => Result<T, F>} A function mapping the error value of its result.
+ */
+export function map_error<E, F>(
+	apply: (value: E) => F,
+): <T>(result: Result<T, E>) => Result<T, F> {
+	return (result) => data_first.map_error(result, apply);
+}
+
+/**
+ * Data-last variant of `map_both`.
+ * @template T - The original type of the successful value.
+ * @template E - The original type of the error value.
+ * @template U - The new type of the successful value.
+ * @template F - The new type of the error value.
+ * @param {(value: T) => U} on_ok - The function to apply to the successful value.
+ * @param {(value: E) => F} on_err - The function to apply to the error value.
+ * @returns {(result: Result<T, E>) => Result<U, F>} A function mapping whichever value its result holds.
+ */
+export function map_both<T, E, U, F>(
+	on_ok: (value: T) => U,
+	on_err: (value: E) => F,
+): (result: Result<T, E>) => Result<U, F> {
+	return (result) => data_first.map_both(result, on_ok, on_err);
+}
+
+/**
+ * Data-last variant of `tap`.
+ * @template T - The type of the successful value.
+ * @param {(value: T) => void} apply - The function to call with the successful value.
+ * @returns {<E>(result: Result<T, E>) => Result<T, E>} A function calling `apply` and returning its result unchanged.
+ */
+export function tap<T>(
+	apply: (value: T) => void,
+): <E>(result: Result<T, E>) => Result<T, E> {
+	return (result) => data_first.tap(result, apply);
+}
+
+/**
+ * Data-last variant of `tap_error`.
+ * @template E - The type of the error value.
+ * @param {(value: E) => void} apply - The function to call with the error value.
+ * @returns {<T>(result: Result<T, E>) => Result<T, E>} A function calling `apply` and returning its result unchanged.
+ */
+export function tap_error<E>(
+	apply: (value: E) => void,
+): <T>(result: Result<T, E>) => Result<T, E> {
+	return (result) => data_first.tap_error(result, apply);
+}
+
+/**
+ * Data-last variant of `replace`.
+ * @template U - The type of the new successful value.
+ * @param {U} value - The value replacing the successful value.
+ * @returns {<T, E>(result: Result<T, E>) => Result<U, E>} A function replacing the successful value of its result.
+ */
+export function replace<U>(
+	value: U,
+): <T, E>(result: Result<T, E>) => Result<U, E> {
+	return (result) => data_first.replace(result, value);
+}
+
+/**
+ * Data-last variant of `replace_error`.
+ * @template F - The type of the new error value.
+ * @param {F} value - The value replacing the error value.
+ * @returns {<T, E>(result: Result<T, E>) => Result<T, F>} A function replacing the error value of its result.
+ */
+export function replace_error<F>(
+	value: F,
+): <T, E>(result: Result<T, E>) => Result<T, F> {
+	return (result) => data_first.replace_error(result, value);
+}
+
+/**
+ * Data-last variant of `or`.
+ * The fallback may have different types than the piped result.
+ * @template U - The type of the successful value of `right`.
+ * @template F - The type of the error value of `right`.
+ * @param {Result<U, F>} right - The result to return if the piped result is an `Err`.
+ * @returns {<T, E>(left: Result<T, E>) => Result<T | U, F>} A function returning its result if `Ok`, or `right`.
+ */
+export function or<U, F>(
+	right: Result<U, F>,
+): <T, E>(left: Result<T, E>) => Result<T | U, F> {
+	return <T, E>(left: Result<T, E>) => (data_first.is_ok(left) ? left : right);
+}
+
+/**
+ * Data-last variant of `lazy_or`.
+ * The fallback may have different types than the piped result.
+ * @template U - The type of the successful value of the fallback.
+ * @template F - The type of the error value of the fallback.
+ * @param {() => Result<U, F>} right - The function computing the result to return if the piped result is an `Err`.
+ * @returns {<T, E>(left: Result<T, E>) => Result<T | U, F>} A function returning its result if `Ok`, or the computed one.
+ */
+export function lazy_or<U, F>(
+	right: () => Result<U, F>,
+): <T, E>(left: Result<T, E>) => Result<T | U, F> {
+	return <T, E>(left: Result<T, E>) =>
+		data_first.is_ok(left) ? left : right();
+}
+
+/**
+ * Data-last variant of `then`.
+ * The error type of `apply` is added to the error type of the piped result.
+ * @template T - The type of the original successful value.
+ * @template U - The type of the successful value returned by `apply`.
+ * @template F - The type of the error value returned by `apply`.
+ * @param {(value: T) => Result<U, F>} apply - The function to chain on the successful value.
+ * @returns {<E>(result: Result<T, E>) => Result<U, E | F>} A function chaining `apply` on its result.
+ */
+export function then<T, U, F>(
+	apply: (value: T) => Result<U, F>,
+): <E>(result: Result<T, E>) => Result<U, E | F> {
+	return <E>(result: Result<T, E>) =>
+		data_first.then<T, U, E | F>(result, apply);
+}
+
+export {
+	/**
+	 * Alias of `then`, matching the name used by Gleam's `result.try`.
+	 */
+	then as try,
+};
+
+/**
+ * Data-last variant of `try_recover`.
+ * The successful type of `apply` is added to the successful type of the piped result.
+ * @template E - The type of the original error value.
+ * @template U - The type of the successful value returned by `apply`.
+ * @template F - The type of the error value returned by `apply`.
+ * @param {(value: E) => Result<U, F>} apply - The function recovering from the error value.
+ * @returns {<T>(result: Result<T, E>) => Result<T | U, F>} A function recovering its result if it is an `Err`.
+ */
+export function try_recover<E, U, F>(
+	apply: (value: E) => Result<U, F>,
+): <T>(result: Result<T, E>) => Result<T | U, F> {
+	return <T>(result: Result<T, E>) =>
+		data_first.try_recover<T | U, E, F>(result, apply);
+}
@@ -0,0 +1,303 @@
+import { none, some, type Option } from "./option";
+import { all, derived_err, ok, type Result } from "./result";
+
+/**
+ * DecodeError describes a part of an input that didn't have the expected shape.
+ */
+export type DecodeError = {
+	/** A description of the expected value. */
+	expected: string;
+	/** The kind of value that was found instead, see `classify`. */
+	found: string;
+	/** The keys leading from the root of the input to the malformed value. */
+	path: Array<string>;
+};
+
+/**
+ * A Decoder turns an unknown input into a typed value, or describes everything that was malformed.
+ * @template T - The type of the decoded value.
+ */
+export type Decoder<T> = (input: unknown) => Result<T, Array<DecodeError>>;
+
+/**
+ * Extracts the type of the value decoded by a `Decoder`.
+ * @template D - The decoder type.
+ */
+export type TypeOf<D> = D extends Decoder<infer T> ? T : never;
+
+/**
+ * Names the kind of an unknown value, used as `found` in a `DecodeError`.
+ * @param {unknown} value - The value to classify.
+ * @returns {string} One of `"null"`, `"array"` or the result of `typeof`.
+ */
+export function classify(value: unknown): string {
+	if (value === null) {
+		return "null";
+	}
+
+	if (Array.isArray(value)) {
+		return "array";
+	}
+
+	return typeof value;
+}
+
+/**
+ * Creates a failed decoding with a single error at the root of the input.
+ * @param {string} expected - A description of the expected value.
+ * @param {unknown} input - The value that was found instead.
+ * @returns {Result<never, Array<DecodeError>>} An `Err` holding the error.
+ */
+function failure(
+	expected: string,
+	input: unknown,
+): Result<never, Array<DecodeError>> {
+	return derived_err([{ expected, found: classify(input), path: [] }]);
+}
+
+/**
+ * Prefixes the paths of the errors of a decoding with a key.
+ * @template T - The type of the decoded value.
+ * @param {Result<T, Array<DecodeError>>} result - The decoding of a nested value.
+ * @param {string} key - The key of the nested value.
+ * @returns {Result<T, Array<DecodeError>>} The same decoding, with paths starting at `key`.
+ */
+function at<T>(
+	result: Result<T, Array<DecodeError>>,
+	key: string,
+): Result<T, Array<DecodeError>> {
+	switch (result.type) {
+		case "err":
+			return derived_err(
+				result.value.map((error) => ({ ...error, path: [key, ...error.path] })),
+			);
+
+		default:
+			return result;
+	}
+}
+
+/**
+ * Combines the decodings of several nested values, keeping the errors of all of them.
+ * @template T - The type of the decoded values.
+ * @param {Array<Result<T, Array<DecodeError>>>} results - The decodings of the nested values.
+ * @returns {Result<Array<T>, Array<DecodeError>>} An `Ok` with every decoded value, or an `Err` with every error.
+ */
+function collect<T>(
+	results: Array<Result<T, Array<DecodeError>>>,
+): Result<Array<T>, Array<DecodeError>> {
+	const errors = results.flatMap((result) =>
+		result.type === "err" ? result.value : [],
+	);
+
+	return errors.length > 0 ? derived_err(errors) : all(results);
+}
+
+/**
+ * Decodes a string.
+ * @param {unknown} input - The input to decode.
+ * @returns {Result<string, Array<DecodeError>>} The string, or an error if the input is not a string.
+ */
+export const string: Decoder<string> = (input) =>
+	typeof input === "string" ? ok(input) : failure("string", input);
+
+/**
+ * Decodes a number, `NaN` is not accepted.
+ * @param {unknown} input - The input to decode.
+ * @returns {Result<number, Array<DecodeError>>} The number, or an error if the input is not a number.
+ */
+export const number: Decoder<number> = (input) =>
+	typeof input === "number" && !Number.isNaN(input)
+		? ok(input)
+		: failure("number", input);
+
+/**
+ * Decodes a boolean.
+ * @param {unknown} input - The input to decode.
+ * @returns {Result<boolean, Array<DecodeError>>} The boolean, or an error if the input is not a boolean.
+ */
+export const boolean: Decoder<boolean> = (input) =>
+	typeof input === "boolean" ? ok(input) : failure("boolean", input);
+
+/**
+ * Creates a decoder accepting exactly one primitive value.
+ * @template L - The type of the accepted value.
+ * @param {L} value - The accepted value.
+ * @returns {Decoder<L>} A decoder that fails for every other input.
+ */
+export function literal<const L extends string | number | boolean | null>(
+	value: L,
+): Decoder<L> {
+	return (input) =>
+		input === value ? ok(value) : failure(JSON.stringify(value), input);
+}
+
+/**
+ * Creates a decoder of arrays whose items are decoded by `decoder`.
+ * Errors of items are reported with the index of the item in their path.
+ * @template T - The type of the decoded items.
+ * @param {Decoder<T>} decoder - The decoder of a single item.
+ * @returns {Decoder<Array<T>>} A decoder of arrays, failing with the errors of every malformed item.
+ */
+export function array<T>(decoder: Decoder<T>): Decoder<Array<T>> {
+	return (input) => {
+		if (!Array.isArray(input)) {
+			return failure("array", input);
+		}
+
+		return collect(input.map((item, index) => at(decoder(item), `${index}`)));
+	};
+}
+
+/**
+ * Creates a decoder of a single field of an object.
+ * A missing field is passed to `decoder` as `undefined`, so it can be decoded with `optional`.
+ * @template T - The type of the decoded field.
+ * @param {string} key - The key of the field.
+ * @param {Decoder<T>} decoder - The decoder of the field's value.
+ * @returns {Decoder<T>} A decoder of objects, failing with errors whose path starts at `key`.
+ */
+export function field<T>(key: string, decoder: Decoder<T>): Decoder<T> {
+	return (input) => {
+		if (typeof input !== "object" || input === null || Array.isArray(input)) {
+			return failure("object", input);
+		}
+
+		return at(decoder((input as Record<string, unknown>)[key]), key);
+	};
+}
+
+/**
+ * Creates a decoder of objects with a fixed set of fields, each decoded by its own decoder.
+ * Unknown fields are ignored.
+ * @example
+ * const user = object({ name: string, age: optional(number) });
+ * user({ name: "ada" }); // Ok({ name: "ada", age: none })
+ * @template S - The decoders of each field.
+ * @param {S} shape - The decoders of each field, keyed by field name.
+ * @returns {Decoder<{ [K in keyof S]: TypeOf<S[K]> }>} A decoder of objects, failing with the errors of every malformed field.
+ */
+export function object<S extends Record<string, Decoder<unknown>>>(
+	shape: S,
+): Decoder<{ [K in keyof S]: TypeOf<S[K]> }> {
+	return (input) => {
+		if (typeof input !== "object" || input === null || Array.isArray(input)) {
+			return failure("object", input);
+		}
+
+		const keys = Object.keys(shape);
+		const fields = collect(
+			keys.map((key) => field(key, shape[key] as Decoder<unknown>)(input)),
+		);
+
+		switch (fields.type) {
+			case "ok":
+				return ok(
+					Object.fromEntries(
+						keys.map((key, index) => [key, fields.value[index]]),
+					) as { [K in keyof S]: TypeOf<S[K]> },
+				);
+
+			default:
+				return fields;
+		}
+	};
+}
+
+/**
+ * Creates a decoder of values which may be missing, i.e. `null` or `undefined`.
+ * @template T - The type of the decoded value.
+ * @param {Decoder<T>} decoder - The decoder of a present value.
+ * @returns {Decoder<Option<T>>} A decoder returning a 'none' Option for missing values, and a 'some' Option otherwise.
+ */
+export function optional<T>(decoder: Decoder<T>): Decoder<Option<T>> {
+	return (input) => {
+		if (input === null || input === undefined) {
+			return ok(none());
+		}
+
+		const decoded = decoder(input);
+
+		return decoded.type === "ok" ? ok(some(decoded.value)) : decoded;
+	};
+}
+
+/**
+ * Creates a decoder trying several decoders in order, returning the first successful decoding.
+ * @template D - The decoders to try.
+ * @param {D} decoders - The decoders to try.
+ * @returns {Decoder<TypeOf<D[number]>>} A decoder failing with the errors of every decoder if none succeeds.
+ */
+export function union<const D extends Array<Decoder<unknown>>>(
+	...decoders: D
+): Decoder<TypeOf<D[number]>> {
+	return (input) => {
+		const errors: Array<DecodeError> = [];
+
+		for (const decoder of decoders) {
+			const decoded = decoder(input);
+
+			if (decoded.type === "ok") {
+				return decoded as Result<TypeOf<D[number]>, never>;
+			}
+
+			errors.push(...decoded.value);
+		}
+
+		return derived_err(errors);
+	};
+}
+
+/**
+ * Creates a decoder transforming the decoded value of another decoder.
+ * @template T - The type of the value decoded by `decoder`.
+ * @template U - The type of the transformed value.
+ * @param {Decoder<T>} decoder - The decoder whose value to transform.
+ * @param {(value: T) => U} apply - The function to apply to the decoded value.
+ * @returns {Decoder<U>} A decoder returning the transformed value.
+ */
+export function map<T, U>(
+	decoder: Decoder<T>,
+	apply: (value: T) => U,
+): Decoder<U> {
+	return (input) => {
+		const decoded = decoder(input);
+
+		return decoded.type === "ok" ? ok(apply(decoded.value)) : decoded;
+	};
+}
+
+/**
+ * Creates a decoder that additionally checks the decoded value of another decoder.
+ * Type guards narrow the type of the decoded value.
+ * @template T - The type of the value decoded by `decoder`.
+ * @param {Decoder<T>} decoder - The decoder whose value to check.
+ * @param {(value: T) => boolean} predicate - The check the decoded value must pass.
+ * @param {string} expected - A description of the values passing the check, used in the error.
+ * @returns {Decoder<T>} A decoder failing if the decoded value doesn't pass `predicate`.
+ */
+export function refine<T, U extends T>(
+	decoder: Decoder<T>,
+	predicate: (value: T) => value is U,
+	expected: string,
+): Decoder<U>;
+export function refine<T>(
+	decoder: Decoder<T>,
+	predicate: (value: T) => boolean,
+	expected: string,
+): Decoder<T>;
+export function refine<T>(
+	decoder: Decoder<T>,
+	predicate: (value: T) => boolean,
+	expected: string,
+): Decoder<T> {
+	return (input) => {
+		const decoded = decoder(input);
+
+		if (decoded.type === "ok" && !predicate(decoded.value)) {
+			return failure(expected, input);
+		}
+
+		return decoded;
+	};
+}
@@ -0,0 +1,136 @@
+/**
+ * Shared helpers rendering results and options in a readable, Gleam-like form.
+ * This module is internal, its functions are exposed through `to_string` in the result and option modules.
+ * @module
+ */
+
+/**
+ * The symbol Node and Bun look up to customize how `console.log` and `util.inspect` print a value.
+ */
+export const inspect_custom = Symbol.for("nodejs.util.inspect.custom");
+
+/**
+ * The objects currently being rendered, used to detect circular references,
+ * including the ones going through the inspect hook of a nested result or option.
+ */
+const rendering = new Set<object>();
+
+/**
+ * Renders a value the way it would be written in code, e.g. `"x"`, `[1, 2]` or `{ id: 1 }`.
+ * Values with an inspect hook, like results and options, are rendered with it.
+ * Dates, maps, sets and other built-ins are rendered with their contents, class instances with their class name.
+ * @param {unknown} value - The value to render.
+ * @returns {string} A single-line representation of the value.
+ */
+export function render(value: unknown): string {
+	switch (typeof value) {
+		case "string":
+			return JSON.stringify(value);
+
+		case "bigint":
+			return `${value}n`;
+
+		case "function":
+			return `[Function ${value.name || "anonymous"}]`;
+
+		case "object":
+			break;
+
+		default:
+			return String(value);
+	}
+
+	if (value === null) {
+		return "null";
+	}
+
+	if (rendering.has(value)) {
+		return "[Circular]";
+	}
+
+	rendering.add(value);
+
+	try {
+		return render_object(value);
+	} finally {
+		rendering.delete(value);
+	}
+}
+
+/**
+ * Renders an object which is not being rendered already.
+ * @param {object} value - The object to render.
+ * @returns {string} A single-line representation of the object.
+ */
+function render_object(value: object): string {
+	if (value instanceof Error) {
+		return `${value.name}(${JSON.stringify(value.message)})`;
+	}
+
+	if (Array.isArray(value)) {
+		return `[${value.map(render).join(", ")}]`;
+	}
+
+	if (value instanceof Date) {
+		return Number.isNaN(value.getTime())
+			? "Date(Invalid)"
+			: `Date(${JSON.stringify(value.toISOString())})`;
+	}
+
+	if (value instanceof RegExp) {
+		return String(value);
+	}
+
+	if (value instanceof URL) {
+		return `URL(${JSON.stringify(value.href)})`;
+	}
+
+	if (value instanceof Map) {
+		const entries = Array.from(
+			value,
+			([key, field]) => `${render(key)} => ${render(field)}`,
+		);
+
+		return entries.length > 0
+			? `Map(${value.size}) { ${entries.join(", ")} }`
+			: "Map(0) {}";
+	}
+
+	if (value instanceof Set) {
+		const items = Array.from(value, render);
+
+		return items.length > 0
+			? `Set(${value.size}) { ${items.join(", ")} }`
+			: "Set(0) {}";
+	}
+
+	const hook = (value as { [inspect_custom]?: unknown })[inspect_custom];
+
+	if (typeof hook === "function") {
+		return String(hook.call(value));
+	}
+
+	const entries = Object.entries(value).map(
+		([key, field]) => `${key}: ${render(field)}`,
+	);
+	const body = entries.length > 0 ? `{ ${entries.join(", ")} }` : "{}";
+
+	return `${class_name(value)}${body}`;
+}
+
+/**
+ * Names the class of an object, so instances aren't mistaken for plain objects.
+ * @param {object} value - The object to name.
+ * @returns {string} The class name followed by a space, or an empty string for plain objects.
+ */
+function class_name(value: object): string {
+	const prototype = Object.getPrototypeOf(value);
+
+	if (prototype === null || prototype === Object.prototype) {
+		return "";
+	}
+
+	const name = prototype.constructor?.name;
+
+	return typeof name === "string" && name !== "" ? `${name} ` : "";
+}
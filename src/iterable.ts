@@ -0,0 +1,149 @@
+import { derived_err, ok, type Result } from "./result";
+import type { NonEmptyArray, Validation } from "./validation";
+
+/**
+ * Lazily transforms the successful values of a sequence of `Result`s.
+ * `Err` items are passed through unchanged. Nothing is consumed until the returned iterable is iterated.
+ * @template T - The original type of the successful values.
+ * @template E - The type of the error values.
+ * @template U - The new type of the successful values.
+ * @param {Iterable<Result<T, E>>} iterable - The sequence of results to map.
+ * @param {(value: T) => U} apply - The function to apply to each successful value.
+ * @returns {Iterable<Result<U, E>>} A lazy sequence of the mapped results.
+ */
+export function* map_ok<T, E, U>(
+	iterable: Iterable<Result<T, E>>,
+	apply: (value: T) => U,
+): Iterable<Result<U, E>> {
+	for (const result of iterable) {
+		yield result.type === "ok" ? ok(apply(result.value)) : result;
+	}
+}
+
+/**
+ * Lazily drops the `Ok` items of a sequence whose value doesn't pass `predicate`.
+ * `Err` items are always kept, so no error is lost. Type guards narrow the type of the successful values.
+ * @template T - The type of the successful values.
+ * @template E - The type of the error values.
+ * @param {Iterable<Result<T, E>>} iterable - The sequence of results to filter.
+ * @param {(value: T) => boolean} predicate - The check a successful value must pass to be kept.
+ * @returns {Iterable<Result<T, E>>} A lazy sequence of the kept results.
+ */
+export function filter_ok<T, E, U extends T>(
+	iterable: Iterable<Result<T, E>>,
+	predicate: (value: T) => value is U,
+): Iterable<Result<U, E>>;
+export function filter_ok<T, E>(
+	iterable: Iterable<Result<T, E>>,
+	predicate: (value: T) => boolean,
+): Iterable<Result<T, E>>;
+export function* filter_ok<T, E>(
+	iterable: Iterable<Result<T, E>>,
+	predicate: (value: T) => boolean,
+): Iterable<Result<T, E>> {
+	for (const result of iterable) {
+		if (result.type === "err" || predicate(result.value)) {
+			yield result;
+		}
+	}
+}
+
+/**
+ * Lazily yields the items of a sequence up to and including its first `Err`.
+ * The `Err` itself is kept so the reason for stopping isn't lost, and the rest of the sequence is never consumed.
+ * @template T - The type of the successful values.
+ * @template E - The type of the error values.
+ * @param {Iterable<Result<T, E>>} iterable - The sequence of results to take from.
+ * @returns {Iterable<Result<T, E>>} A lazy sequence ending after the first `Err`.
+ */
+export function* take_while_ok<T, E>(
+	iterable: Iterable<Result<T, E>>,
+): Iterable<Result<T, E>> {
+	for (const result of iterable) {
+		yield result;
+
+		if (result.type === "err") {
+			return;
+		}
+	}
+}
+
+/**
+ * Consumes a sequence of `Result`s into a single `Result` containing an array of successful values.
+ * Consumption stops at the first `Err`, which is returned.
+ * @template T - The type of the successful values.
+ * @template E - The type of the error values.
+ * @param {Iterable<Result<T, E>>} iterable - The sequence of results to collect.
+ * @returns {Result<Array<T>, E>} An `Ok` with every successful value, or the first `Err` encountered.
+ */
+export function collect<T, E>(
+	iterable: Iterable<Result<T, E>>,
+): Result<Array<T>, E> {
+	const values: Array<T> = [];
+
+	for (const result of iterable) {
+		if (result.type === "err") {
+			return result;
+		}
+
+		values.push(result.value);
+	}
+
+	return ok(values);
+}
+
+/**
+ * Consumes a sequence of `Result`s into a `Validation`, keeping every error instead of stopping at the first one.
+ * @template T - The type of the successful values.
+ * @template E - The type of the error values.
+ * @param {Iterable<Result<T, E>>} iterable - The sequence of results to collect.
+ * @returns {Validation<Array<T>, E>} An `Ok` with every successful value, or an `Err` with every error value.
+ */
+export function collect_all_errors<T, E>(
+	iterable: Iterable<Result<T, E>>,
+): Validation<Array<T>, E> {
+	const [values, errors] = split(iterable);
+
+	return errors.length > 0
+		? derived_err(errors as NonEmptyArray<E>)
+		: ok(values);
+}
+
+/**
+ * Splits a sequence of `Result`s into the successful values and the error values, in the order of the sequence.
+ * @template T - The type of the successful values.
+ * @template E - The type of the error values.
+ * @param {Iterable<Result<T, E>>} iterable - The sequence of results to split.
+ * @returns {[Array<T>, Array<E>]} A tuple of all successful values and all error values.
+ */
+function split<T, E>(iterable: Iterable<Result<T, E>>): [Array<T>, Array<E>] {
+	const values: Array<T> = [];
+	const errors: Array<E> = [];
+
+	for (const result of iterable) {
+		if (result.type === "ok") {
+			values.push(result.value);
+		} else {
+			errors.push(result.value);
+		}
+	}
+
+	return [values, errors];
+}
+
+/**
+ * Consumes a sequence of `Result`s, splitting it into the successful values and the error values.
+ * Like `partition` of the result module and Gleam, both arrays come back in the reverse order of the sequence,
+ * use `collect_all_errors` to keep the order.
+ * @template T - The type of the successful values.
+ * @template E - The type of the error values.
+ * @param {Iterable<Result<T, E>>} iterable - The sequence of results to split.
+ * @returns {[Array<T>, Array<E>]} A tuple of all successful values and all error values, in reverse order.
+ */
+export function partition<T, E>(
+	iterable: Iterable<Result<T, E>>,
+): [Array<T>, Array<E>] {
+	const [values, errors] = split(iterable);
+
+	return [values.reverse(), errors.reverse()];
+}
@@ -0,0 +1,177 @@
+/**
+ * JSON codecs for `Result` and `Option`.
+ *
+ * Wire formats, which are stable across versions:
+ * - `Ok`: `{ "type": "ok", "value": <value> }`
+ * - `Err`: `{ "type": "err", "value": <error> }`
+ * - `some`: `{ "type": "some", "value": <value> }`
+ * - `none`: `{ "type": "none" }`
+ *
+ * `JSON.stringify` drops a `value` that is `undefined`, so a missing `value` is decoded as `undefined`,
+ * e.g. to read back the result of `nil_error` or `some(undefined)`.
+ *
+ * Inner values are encoded and decoded by the given functions, so nested types
+ * like an Option inside a Result are written as nested objects in the same formats.
+ * @module
+ */
+
+import { classify, field, type DecodeError, type Decoder } from "./decode";
+import { none, some, type Option } from "./option";
+import { derived_err, err, map, ok, type Result } from "./result";
+
+/**
+ * The wire format of a `Result`.
+ * @template T - The type of the encoded successful value.
+ * @template E - The type of the encoded error value.
+ */
+export type ResultJson<T, E> =
+	| { type: "ok"; value: T }
+	| { type: "err"; value: E };
+
+/**
+ * The wire format of an `Option`.
+ * @template T - The type of the encoded value.
+ */
+export type OptionJson<T> = { type: "some"; value: T } | { type: "none" };
+
+/**
+ * Reads the `type` tag of a wire format object.
+ * @param {unknown} input - The input to read from.
+ * @param {string} expected - A description of the expected tags.
+ * @returns {Result<{ type: unknown }, Array<DecodeError>>} The input as an object, or an error if it has no `type`.
+ */
+function tagged(
+	input: unknown,
+	expected: string,
+): Result<{ type: unknown }, Array<DecodeError>> {
+	if (typeof input !== "object" || input === null || Array.isArray(input)) {
+		return derived_err([
+			{ expected: "object", found: classify(input), path: [] },
+		]);
+	}
+
+	if (!("type" in input)) {
+		return derived_err([{ expected, found: "undefined", path: ["type"] }]);
+	}
+
+	return ok(input);
+}
+
+/**
+ * Encodes a `Result` into its wire format.
+ * @template T - The type of the successful value.
+ * @template E - The type of the error value.
+ * @template V - The type of the encoded successful value.
+ * @template F - The type of the encoded error value.
+ * @param {Result<T, E>} result - The result to encode.
+ * @param {(value: T) => V} [encode_value] - The function encoding the successful value, defaults to leaving it as is.
+ * @param {(value: E) => F} [encode_error] - The function encoding the error value, defaults to leaving it as is.
+ * @returns {ResultJson<V, F>} A plain object that can be passed to `JSON.stringify` or `postMessage`.
+ */
+export function result_to_json<T, E, V = T, F = E>(
+	result: Result<T, E>,
+	encode_value: (value: T) => V = (value) => value as unknown as V,
+	encode_error: (value: E) => F = (value) => value as unknown as F,
+): ResultJson<V, F> {
+	switch (result.type) {
+		case "ok":
+			return { type: "ok", value: encode_value(result.value) };
+
+		default:
+			return { type: "err", value: encode_error(result.value) };
+	}
+}
+
+/**
+ * Decodes a `Result` from its wire format.
+ * @template T - The type of the successful value.
+ * @template E - The type of the error value.
+ * @param {unknown} input - The parsed payload to decode.
+ * @param {Decoder<T>} decode_value - The decoder of the successful value.
+ * @param {Decoder<E>} decode_error - The decoder of the error value.
+ * @returns {Result<Result<T, E>, Array<DecodeError>>} An `Ok` holding the decoded `Result`, or an `Err` describing what was malformed.
+ */
+export function result_from_json<T, E>(
+	input: unknown,
+	decode_value: Decoder<T>,
+	decode_error: Decoder<E>,
+): Result<Result<T, E>, Array<DecodeError>> {
+	const object = tagged(input, '"ok" or "err"');
+
+	if (object.type === "err") {
+		return object;
+	}
+
+	const { type } = object.value;
+
+	switch (type) {
+		case "ok":
+			return map(field("value", decode_value)(input), ok);
+
+		case "err":
+			return map(field("value", decode_error)(input), err);
+
+		default:
+			return derived_err([
+				{ expected: '"ok" or "err"', found: classify(type), path: ["type"] },
+			]);
+	}
+}
+
+/**
+ * Encodes an `Option` into its wire format.
+ * @template T - The type of the value.
+ * @template V - The type of the encoded value.
+ * @param {Option<T>} option - The option to encode.
+ * @param {(value: T) => V} [encode_value] - The function encoding the value, defaults to leaving it as is.
+ * @returns {OptionJson<V>} A plain object that can be passed to `JSON.stringify` or `postMessage`.
+ */
+export function option_to_json<T, V = T>(
+	option: Option<T>,
+	encode_value: (value: T) => V = (value) => value as unknown as V,
+): OptionJson<V> {
+	switch (option.type) {
+		case "some":
+			return { type: "some", value: encode_value(option.value) };
+
+		default:
+			return { type: "none" };
+	}
+}
+
+/**
+ * Decodes an `Option` from its wire format.
+ * @template T - The type of the value.
+ * @param {unknown} input - The parsed payload to decode.
+ * @param {Decoder<T>} decode_value - The decoder of the value of a `some`.
+ * @returns {Result<Option<T>, Array<DecodeError>>} An `Ok` holding the decoded `Option`, or an `Err` describing what was malformed.
+ */
+export function option_from_json<T>(
+	input: unknown,
+	decode_value: Decoder<T>,
+): Result<Option<T>, Array<DecodeError>> {
+	const object = tagged(input, '"some" or "none"');
+
+	if (object.type === "err") {
+		return object;
+	}
+
+	const { type } = object.value;
+
+	switch (type) {
+		case "none":
+			return ok(none());
+
+		case "some":
+			return map(field("value", decode_value)(input), some);
+
+		default:
+			return derived_err([
+				{
+					expected: '"some" or "none"',
+					found: classify(type),
+					path: ["type"],
+				},
+			]);
+	}
+}
@@ -1,13 +1,23 @@
+import { inspect_custom, render } from "./inspect";
+import { err, ok, UnwrapError, type Result } from "./result";
+
+export { UnwrapError };
+
 /**
  * Some represents any data that exists
  */
-type Some<T> = { readonly value: T; type: "some" };
+export type Some<T> = {
+	readonly value: T;
+	type: "some";
+};
 
 /**
  * None is similar to null or undefined
  * when value doesn't exist
  */
-type None = { readonly type: "none" };
+export type None = {
+	readonly type: "none";
+};
 
 /**
  * Option is a maybe type
@@ -15,20 +25,169 @@ type None = { readonly type: "none" };
 export type Option<T> = Some<T> | None;
 
 /**
- * create a new some value from any value
+ * extracts the value type of an Option
+ */
+export type ValueOf<O> = O extends Some<infer T> ? T : never;
+
+/**
+ * shared prototype of all options, printed like `to_string` by `console.log` in Node and Bun
+ */
+const option_prototype = Object.freeze({
+	[inspect_custom](this: Option<unknown>) {
+		return to_string(this);
+	},
+});
+
+/**
+ * the single none value, shared by every call to `none`
+ */
+const none_value: None = Object.freeze(
+	Object.assign(Object.create(option_prototype), { type: "none" }),
+);
+
+/**
+ * create a new some value from any value, the option is frozen
+ * which makes it two to four times as slow to create as a plain literal, see `bun run bench`
  * @param value - internal value of the option
  * @returns a new option
  */
 export function some<T>(value: T): Option<T> {
-	return { type: "some", value };
+	const option = Object.create(option_prototype);
+
+	option.type = "some";
+	option.value = value;
+
+	return Object.freeze(option);
 }
 
 /**
- * create a new none value
- * @returns a new none type
+ * get the none value, every call returns the same frozen object
+ * @returns the none option
  */
 export function none<T>(): Option<T> {
-	return { type: "none" };
+	return none_value;
+}
+
+/**
+ * create a some value from a value that may be null or undefined
+ * @param value - value which may be null or undefined
+ * @returns a none option for null or undefined, otherwise a some option
+ */
+export function from_nullable<T>(value: T | null | undefined): Option<T> {
+	return value === null || value === undefined ? none() : some(value);
+}
+
+/**
+ * Values that javascript treats as false in a condition.
+ */
+export type Falsy = false | 0 | 0n | "" | null | undefined;
+
+/**
+ * create a some value from a value only if it is truthy
+ * @param value - value which may be falsy
+ * @returns a none option for falsy values (including `NaN`), otherwise a some option
+ */
+export function from_falsy<T>(value: T): Option<Exclude<T, Falsy>> {
+	return value ? some(value as Exclude<T, Falsy>) : none();
+}
+
+/**
+ * create a some value from a value only if it passes a predicate,
+ * type guards narrow the type of the option
+ * @param value - value to check
+ * @param predicate - predicate or type guard the value must pass
+ * @returns a some option if the value passes the predicate, otherwise a none option
+ */
+export function from_predicate<T, U extends T>(
+	value: T,
+	predicate: (value: T) => value is U,
+): Option<U>;
+export function from_predicate<T>(
+	value: T,
+	predicate: (value: T) => boolean,
+): Option<T>;
+export function from_predicate<T>(
+	value: T,
+	predicate: (value: T) => boolean,
+): Option<T> {
+	return predicate(value) ? some(value) : none();
+}
+
+/**
+ * Converts an Option into a nullable value.
+ * @param option - The Option to convert.
+ * @returns The value from 'some', or null for 'none'.
+ */
+export function to_nullable<T>(option: Option<T>): T | null {
+	return is_some(option) ? option.value : null;
+}
+
+/**
+ * Converts an Option into a value which may be undefined.
+ * @param option - The Option to convert.
+ * @returns The value from 'some', or undefined for 'none'.
+ */
+export function to_undefined<T>(option: Option<T>): T | undefined {
+	return is_some(option) ? option.value : undefined;
+}
+
+/**
+ * type of a property of a possibly nullable object, without null and undefined
+ */
+type Field<T, K extends keyof NonNullable<T>> = NonNullable<NonNullable<T>[K]>;
+
+/**
+ * Safely reads a property, or a deep path of properties, of an object whose properties may be missing.
+ * Reading stops at the first null or undefined value along the path.
+ * @param object - The object to read from, may itself be null or undefined.
+ * @param path - The property keys to follow, one per level.
+ * @returns A 'some' Option with the value at the end of the path, or a 'none' Option if any step is null or undefined.
+ * @example
+ * get(config, "server", "port") // Option<number>
+ */
+export function get<T, A extends keyof NonNullable<T>>(
+	object: T,
+	a: A,
+): Option<Field<T, A>>;
+export function get<
+	T,
+	A extends keyof NonNullable<T>,
+	B extends keyof Field<T, A>,
+>(object: T, a: A, b: B): Option<Field<Field<T, A>, B>>;
+export function get<
+	T,
+	A extends keyof NonNullable<T>,
+	B extends keyof Field<T, A>,
+	C extends keyof Field<Field<T, A>, B>,
+>(object: T, a: A, b: B, c: C): Option<Field<Field<Field<T, A>, B>, C>>;
+export function get<
+	T,
+	A extends keyof NonNullable<T>,
+	B extends keyof Field<T, A>,
+	C extends keyof Field<Field<T, A>, B>,
+	D extends keyof Field<Field<Field<T, A>, B>, C>,
+>(
+	object: T,
+	a: A,
+	b: B,
+	c: C,
+	d: D,
+): Option<Field<Field<Field<Field<T, A>, B>, C>, D>>;
+export function get(
+	object: unknown,
+	...path: Array<PropertyKey>
+): Option<unknown> {
+	let current = object;
+
+	for (const key of path) {
+		if (current === null || current === undefined) {
+			return none();
+		}
+
+		current = (current as Record<PropertyKey, unknown>)[key];
+	}
+
+	return from_nullable(current);
 }
 
 /**
@@ -49,6 +208,96 @@ export function is_none<T>(option: Option<T>): option is None {
 	return !is_some(option);
 }
 
+/**
+ * Checks if an unknown value has the shape of an Option, e.g. a payload received from another worker or over HTTP.
+ * Only the shape is checked, use `option_from_json` from the json module to also decode the inner value.
+ * A value passing the check works with every function of this module, including `bind` inside `gen`.
+ * A missing `value` stands for `undefined`, which `JSON.stringify` drops, e.g. for `some(undefined)`.
+ * @param value - The value to check.
+ * @returns True if the value is a 'some' or a 'none' object, false otherwise.
+ */
+export function is_option(value: unknown): value is Option<unknown> {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		"type" in value &&
+		(value.type === "some" || value.type === "none")
+	);
+}
+
+/**
+ * Checks if two options are both 'none', or both 'some' with equal values.
+ * @param a - The first Option.
+ * @param b - The second Option.
+ * @param equals_value - The equality of values, defaults to `Object.is`.
+ * @returns True if both options are equal, false otherwise.
+ */
+export function equals<T>(
+	a: Option<T>,
+	b: Option<T>,
+	equals_value: (a: T, b: T) => boolean = Object.is,
+): boolean {
+	if (a.type === "some" && b.type === "some") {
+		return equals_value(a.value, b.value);
+	}
+
+	return a.type === b.type;
+}
+
+/**
+ * Orders two options, for use with `Array.prototype.sort`.
+ * 'none' comes before every 'some', then values are compared with each other.
+ * @param a - The first Option.
+ * @param b - The second Option.
+ * @param compare_value - The ordering of values, defaults to `<` and `>`.
+ * @returns A negative number if `a` comes first, a positive number if `b` comes first, 0 otherwise.
+ */
+export function compare<T>(
+	a: Option<T>,
+	b: Option<T>,
+	compare_value: (a: T, b: T) => number = (x, y) =>
+		x < y ? -1 : x > y ? 1 : 0,
+): number {
+	if (a.type === "some" && b.type === "some") {
+		return compare_value(a.value, b.value);
+	}
+
+	if (a.type === b.type) {
+		return 0;
+	}
+
+	return a.type === "none" ? -1 : 1;
+}
+
+/**
+ * Renders an Option the way Gleam prints it, e.g. `Some("x")` or `None`.
+ * Nested options and results are rendered the same way.
+ * @param option - The Option to render.
+ * @returns A readable, single-line representation of the option.
+ */
+export function to_string<T>(option: Option<T>): string {
+	return option.type === "some" ? `Some(${render(option.value)})` : "None";
+}
+
+/**
+ * Handles both cases of an Option without depending on its representation.
+ * @param option - The Option to match.
+ * @param handlers - `some` is called with the value of a 'some' Option, `none` is called for a 'none' Option.
+ * @returns The return value of the handler that was called.
+ */
+export function match<T, U>(
+	option: Option<T>,
+	handlers: { some: (value: T) => U; none: () => U },
+): U {
+	switch (option.type) {
+		case "some":
+			return handlers.some(option.value);
+
+		default:
+			return handlers.none();
+	}
+}
+
 /**
  * Unwraps the value from a 'some' Option or returns a default value for 'none' Option.
  * @param option - The Option to unwrap.
@@ -65,6 +314,49 @@ export function unwrap<T>(option: Option<T>, with_default: T): T {
 	}
 }
 
+/**
+ * Unwraps the value from a 'some' Option or calls a function to produce a default value for 'none' Option.
+ * @param option - The Option to unwrap.
+ * @param with_default - The function producing the default value, only called if the option is 'none'.
+ * @returns The value from 'some' or the produced default value.
+ */
+export function lazy_unwrap<T>(option: Option<T>, with_default: () => T): T {
+	switch (option.type) {
+		case "some":
+			return option.value;
+
+		default:
+			return with_default();
+	}
+}
+
+/**
+ * Unwraps the value from a 'some' Option or throws an `UnwrapError` with the given message for 'none' Option.
+ * @param option - The Option to unwrap.
+ * @param message - The message of the thrown error.
+ * @returns The value from 'some'.
+ * @throws {UnwrapError} If the option is 'none'.
+ */
+export function expect<T>(option: Option<T>, message: string): T {
+	switch (option.type) {
+		case "some":
+			return option.value;
+
+		default:
+			throw new UnwrapError(message);
+	}
+}
+
+/**
+ * Unwraps the value from a 'some' Option or throws an `UnwrapError` for 'none' Option.
+ * @param option - The Option to unwrap.
+ * @returns The value from 'some'.
+ * @throws {UnwrapError} If the option is 'none'.
+ */
+export function unwrap_or_throw<T>(option: Option<T>): T {
+	return expect(option, "called `unwrap_or_throw` on a `none` value");
+}
+
 /**
  * Maps the value of a 'some' Option using a predicate function.
  * If the Option is 'none', it returns a 'none' Option.
@@ -78,10 +370,10 @@ export function map<T, U>(
 ): Option<U> {
 	switch (option.type) {
 		case "some":
-			return { type: "some", value: predicate(option.value) };
+			return some(predicate(option.value));
 
 		default:
-			return { type: "none" };
+			return none();
 	}
 }
 
@@ -102,26 +394,235 @@ export function then<T, U>(
 			return apply(option.value);
 
 		default:
-			return { type: "none" };
+			return none();
+	}
+}
+
+/**
+ * Calls a function with the value of a 'some' Option and returns the option unchanged,
+ * e.g. to log values flowing through a chain of `then` without breaking it.
+ * @param option - The Option to observe.
+ * @param apply - The function to call with the value if the option is 'some'.
+ * @returns The same Option.
+ */
+export function tap<T>(
+	option: Option<T>,
+	apply: (value: T) => void,
+): Option<T> {
+	if (option.type === "some") {
+		apply(option.value);
+	}
+
+	return option;
+}
+
+/**
+ * Calls a function if an Option is 'none' and returns the option unchanged.
+ * @param option - The Option to observe.
+ * @param apply - The function to call if the option is 'none'.
+ * @returns The same Option.
+ */
+export function tap_none<T>(option: Option<T>, apply: () => void): Option<T> {
+	if (option.type === "none") {
+		apply();
 	}
+
+	return option;
+}
+
+/**
+ * Merges a nested Option into a single layer.
+ * @param option - The nested Option to flatten.
+ * @returns The inner Option if the outer one is 'some', otherwise a 'none' Option.
+ */
+export function flatten<T>(option: Option<Option<T>>): Option<T> {
+	switch (option.type) {
+		case "some":
+			return option.value;
+
+		default:
+			return none();
+	}
+}
+
+/**
+ * Returns the first Option if it is 'some', otherwise the second one.
+ * @param first - The primary Option.
+ * @param second - The fallback Option.
+ * @returns `first` if it is 'some', otherwise `second`.
+ */
+export function or<T>(first: Option<T>, second: Option<T>): Option<T> {
+	return is_some(first) ? first : second;
+}
+
+/**
+ * Returns the first Option if it is 'some', otherwise calls a function to produce the second one.
+ * @param first - The primary Option.
+ * @param second - The function producing the fallback Option, only called if `first` is 'none'.
+ * @returns `first` if it is 'some', otherwise the Option returned by `second`.
+ */
+export function lazy_or<T>(
+	first: Option<T>,
+	second: () => Option<T>,
+): Option<T> {
+	return is_some(first) ? first : second();
 }
 
 /**
  * Combines an array of Options into a single Option of an array.
  * If any Option in the list is 'none', the result is a 'none' Option.
  * Otherwise, it returns a 'some' Option containing an array of all unwrapped values.
+ * Tuples keep the type of each position, e.g. `[Option<A>, Option<B>]` becomes `Option<[A, B]>`.
  * @param list - An array of Options.
  * @returns An Option containing an array of values, or a 'none' Option.
  */
-export function all<T>(list: Array<Option<T>>): Option<Array<T>> {
-	return list.reduce<Option<Array<T>>>(
-		(acc, option) => {
-			if (option.type === "none" || acc.type === "none") {
-				return { type: "none" };
-			}
+export function all<const O extends ReadonlyArray<Option<unknown>>>(
+	list: O,
+): Option<{ -readonly [K in keyof O]: ValueOf<O[K]> }>;
+/**
+ * Combines an array of Options into a single Option of an array.
+ * @param list - An array of Options.
+ * @returns An Option containing an array of values, or a 'none' Option.
+ */
+export function all<T>(list: Array<Option<T>>): Option<Array<T>>;
+export function all(
+	list: ReadonlyArray<Option<unknown>>,
+): Option<Array<unknown>> {
+	const values = new Array<unknown>(list.length);
 
-			return { type: "some", value: [...acc.value, option.value] };
-		},
-		{ type: "some", value: [] },
-	);
+	for (let index = 0; index < list.length; index++) {
+		const option = list[index] as Option<unknown>;
+
+		if (option.type === "none") {
+			return none();
+		}
+
+		values[index] = option.value;
+	}
+
+	return some(values);
+}
+
+/**
+ * Combines a record of Options into a single Option of a record with the same keys.
+ * If any Option in the record is 'none', the result is a 'none' Option.
+ * @param record - A record of Options.
+ * @returns An Option containing a record of values, or a 'none' Option.
+ */
+export function all_record<R extends Record<string, Option<unknown>>>(
+	record: R,
+): Option<{ [K in keyof R]: ValueOf<R[K]> }> {
+	const values: Record<string, unknown> = {};
+
+	for (const [key, option] of Object.entries(record)) {
+		if (option.type === "none") {
+			return none();
+		}
+
+		values[key] = option.value;
+	}
+
+	return some(values as { [K in keyof R]: ValueOf<R[K]> });
+}
+
+/**
+ * Collects the values of all 'some' Options in a list, discarding 'none' Options.
+ * @param list - An array of Options.
+ * @returns The values of the 'some' Options, in the order of `list`.
+ */
+export function values<T>(list: Array<Option<T>>): Array<T> {
+	const collected: Array<T> = [];
+
+	for (const option of list) {
+		if (option.type === "some") {
+			collected.push(option.value);
+		}
+	}
+
+	return collected;
+}
+
+/**
+ * Converts a Result into an Option, discarding the error value.
+ * @param result - The Result to convert.
+ * @returns A 'some' Option with the successful value if the result is `Ok`, otherwise a 'none' Option.
+ */
+export function from_result<T, E>(result: Result<T, E>): Option<T> {
+	switch (result.type) {
+		case "ok":
+			return some(result.value);
+
+		default:
+			return none();
+	}
+}
+
+/**
+ * Converts an Option into a Result, using the given error value for 'none' Option.
+ * @param option - The Option to convert.
+ * @param error - The error value to use if the option is 'none'.
+ * @returns An `Ok` result with the value if the option is 'some', otherwise an `Err` result with `error`.
+ */
+export function to_result<T, E>(option: Option<T>, error: E): Result<T, E> {
+	switch (option.type) {
+		case "some":
+			return ok(option.value);
+
+		default:
+			return err(error);
+	}
+}
+
+/**
+ * Binds an option to a step of `gen`: `yield* bind(option)` evaluates to its value,
+ * or stops the generator at a 'none'. Works with any value of the `Option` shape, e.g. one parsed from JSON.
+ * @param option - The option to bind.
+ * @returns A generator yielding the 'none' option, or returning the value.
+ */
+export function* bind<T>(option: Option<T>): Generator<None, T, unknown> {
+	if (option.type === "none") {
+		yield option;
+	}
+
+	return (option as Some<T>).value;
+}
+
+/**
+ * Runs a generator function as a sequence of steps that may return 'none'.
+ * Inside the generator, `yield* bind(option)` evaluates to the value of the option, or stops the generator at the first 'none'.
+ * @param body - The generator function to run.
+ * @returns A 'some' Option with the generator's return value, or a 'none' Option.
+ */
+export function gen<T>(body: () => Generator<None, T, unknown>): Option<T> {
+	const iterator = body();
+	const step = iterator.next();
+
+	if (step.done) {
+		return some(step.value);
+	}
+
+	// let `finally` blocks inside the generator run
+	iterator.return(undefined as T);
+
+	return none();
+}
+
+/**
+ * Async variant of `gen`, use `yield* bind(await promise)` to evaluate a promise of an Option.
+ * @param body - The async generator function to run.
+ * @returns A promise of a 'some' Option with the generator's return value, or a 'none' Option.
+ */
+export async function gen_async<T>(
+	body: () => AsyncGenerator<None, T, unknown>,
+): Promise<Option<T>> {
+	const iterator = body();
+	const step = await iterator.next();
+
+	if (step.done) {
+		return some(step.value);
+	}
+
+	await iterator.return(undefined as T);
+
+	return none();
 }
@@ -0,0 +1,310 @@
+/**
+ * Passes a value through a sequence of functions, top to bottom, like Gleam's `|>`.
+ * Each function receives the return value of the previous one.
+ * @example
+ * pipe(
+ *   input,
+ *   parse,
+ *   map((value) => value * 2),
+ *   unwrap(0),
+ * );
+ * @template A - The type of the initial value.
+ * @param {A} value - The initial value.
+ * @returns {A} The value returned by the last function, or `value` if there are none.
+ */
+export function pipe<A>(value: A): A;
+export function pipe<A, B>(value: A, ab: (a: A) => B): B;
+export function pipe<A, B, C>(value: A, ab: (a: A) => B, bc: (b: B) => C): C;
+export function pipe<A, B, C, D>(
+	value: A,
+	ab: (a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+): D;
+export function pipe<A, B, C, D, E>(
+	value: A,
+	ab: (a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+): E;
+export function pipe<A, B, C, D, E, F>(
+	value: A,
+	ab: (a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+): F;
+export function pipe<A, B, C, D, E, F, G>(
+	value: A,
+	ab: (a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+): G;
+export function pipe<A, B, C, D, E, F, G, H>(
+	value: A,
+	ab: (a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+): H;
+export function pipe<A, B, C, D, E, F, G, H, I>(
+	value: A,
+	ab: (a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+	hi: (h: H) => I,
+): I;
+export function pipe<A, B, C, D, E, F, G, H, I, J>(
+	value: A,
+	ab: (a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+	hi: (h: H) => I,
+	ij: (i: I) => J,
+): J;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K>(
+	value: A,
+	ab: (a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+	hi: (h: H) => I,
+	ij: (i: I) => J,
+	jk: (j: J) => K,
+): K;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L>(
+	value: A,
+	ab: (a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+	hi: (h: H) => I,
+	ij: (i: I) => J,
+	jk: (j: J) => K,
+	kl: (k: K) => L,
+): L;
+export function pipe<A, B, C, D, E, F, G, H, I, J, K, L, M>(
+	value: A,
+	ab: (a: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+	hi: (h: H) => I,
+	ij: (i: I) => J,
+	jk: (j: J) => K,
+	kl: (k: K) => L,
+	lm: (l: L) => M,
+): M;
+export function pipe(
+	value: unknown,
+	...fns: Array<(value: unknown) => unknown>
+): unknown {
+	let current = value;
+
+	for (const fn of fns) {
+		current = fn(current);
+	}
+
+	return current;
+}
+
+/**
+ * Composes a sequence of functions, top to bottom, into a single function.
+ * The first function may take any arguments, each following one receives the return value of the previous one.
+ * @example
+ * const parse_port = flow(
+ *   parse_int,
+ *   then(in_range(1, 65535)),
+ * );
+ * @template A - The types of the arguments of the first function.
+ * @template B - The return type of the first function.
+ * @param {(...args: A) => B} ab - The first function.
+ * @returns {(...args: A) => B} A function calling every function in order.
+ */
+export function flow<A extends ReadonlyArray<unknown>, B>(
+	ab: (...args: A) => B,
+): (...args: A) => B;
+export function flow<A extends ReadonlyArray<unknown>, B, C>(
+	ab: (...args: A) => B,
+	bc: (b: B) => C,
+): (...args: A) => C;
+export function flow<A extends ReadonlyArray<unknown>, B, C, D>(
+	ab: (...args: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+): (...args: A) => D;
+export function flow<A extends ReadonlyArray<unknown>, B, C, D, E>(
+	ab: (...args: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+): (...args: A) => E;
+export function flow<A extends ReadonlyArray<unknown>, B, C, D, E, F>(
+	ab: (...args: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+): (...args: A) => F;
+export function flow<A extends ReadonlyArray<unknown>, B, C, D, E, F, G>(
+	ab: (...args: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+): (...args: A) => G;
+export function flow<A extends ReadonlyArray<unknown>, B, C, D, E, F, G, H>(
+	ab: (...args: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+): (...args: A) => H;
+export function flow<A extends ReadonlyArray<unknown>, B, C, D, E, F, G, H, I>(
+	ab: (...args: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+	hi: (h: H) => I,
+): (...args: A) => I;
+export function flow<
+	A extends ReadonlyArray<unknown>,
+	B,
+	C,
+	D,
+	E,
+	F,
+	G,
+	H,
+	I,
+	J,
+>(
+	ab: (...args: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+	hi: (h: H) => I,
+	ij: (i: I) => J,
+): (...args: A) => J;
+export function flow<
+	A extends ReadonlyArray<unknown>,
+	B,
+	C,
+	D,
+	E,
+	F,
+	G,
+	H,
+	I,
+	J,
+	K,
+>(
+	ab: (...args: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+	hi: (h: H) => I,
+	ij: (i: I) => J,
+	jk: (j: J) => K,
+): (...args: A) => K;
+export function flow<
+	A extends ReadonlyArray<unknown>,
+	B,
+	C,
+	D,
+	E,
+	F,
+	G,
+	H,
+	I,
+	J,
+	K,
+	L,
+>(
+	ab: (...args: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+	hi: (h: H) => I,
+	ij: (i: I) => J,
+	jk: (j: J) => K,
+	kl: (k: K) => L,
+): (...args: A) => L;
+export function flow<
+	A extends ReadonlyArray<unknown>,
+	B,
+	C,
+	D,
+	E,
+	F,
+	G,
+	H,
+	I,
+	J,
+	K,
+	L,
+	M,
+>(
+	ab: (...args: A) => B,
+	bc: (b: B) => C,
+	cd: (c: C) => D,
+	de: (d: D) => E,
+	ef: (e: E) => F,
+	fg: (f: F) => G,
+	gh: (g: G) => H,
+	hi: (h: H) => I,
+	ij: (i: I) => J,
+	jk: (j: J) => K,
+	kl: (k: K) => L,
+	lm: (l: L) => M,
+): (...args: A) => M;
+export function flow(
+	first: (...args: Array<unknown>) => unknown,
+	...rest: Array<(value: unknown) => unknown>
+): (...args: Array<unknown>) => unknown {
+	return (...args) =>
+		(pipe as (value: unknown, ...fns: typeof rest) => unknown)(
+			first(...args),
+			...rest,
+		);
+}
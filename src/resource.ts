@@ -0,0 +1,128 @@
+import type { AsyncResult, Awaitable } from "./async-result";
+import { err, ok, type Result } from "./result";
+
+/**
+ * ReleaseError combines the error of using a resource with the error of releasing it afterwards,
+ * like the native `SuppressedError` does for `using` declarations. Neither error is lost.
+ * The use-step's error is also available as `cause`, so `causes` and `report` from the context module can follow it.
+ * @template E - The type of the error of the use-step.
+ * @template F - The type of the error of the release.
+ */
+export class ReleaseError<E = unknown, F = unknown> extends Error {
+	override readonly name = "ReleaseError";
+
+	/**
+	 * @param {E} error - The error of the use-step.
+	 * @param {F} suppressed - The error of the release, which happened afterwards.
+	 */
+	constructor(
+		readonly error: E,
+		readonly suppressed: F,
+	) {
+		super("releasing a resource failed after it was used unsuccessfully", {
+			cause: error,
+		});
+	}
+}
+
+/**
+ * Acquires a resource, uses it and always releases it, all with functions returning `Result`s.
+ * `release` runs once the resource was acquired, whether `use` returned an `Ok`, an `Err` or threw.
+ * If both `use` and `release` fail, their errors are combined in a `ReleaseError`,
+ * which is thrown if `use` threw, even when `release` throws as well.
+ * @example
+ * const content = await bracket(
+ *   () => open(path),
+ *   (file) => read(file),
+ *   (file) => close(file),
+ * );
+ * @template R - The type of the resource.
+ * @template T - The type of the successful value of `use`.
+ * @template E - The type of the error value of `acquire`.
+ * @template F - The type of the error value of `use`.
+ * @template G - The type of the error value of `release`.
+ * @param {() => Awaitable<Result<R, E>>} acquire - The function acquiring the resource.
+ * @param {(resource: R) => Awaitable<Result<T, F>>} use - The function doing fallible work with the resource.
+ * @param {(resource: R) => Awaitable<Result<unknown, G>>} release - The function releasing the resource.
+ * @returns {AsyncResult<T, E | F | G | ReleaseError<F, G>>} The result of `use`, or the error of whichever step failed.
+ */
+export async function bracket<R, T, E, F, G>(
+	acquire: () => Awaitable<Result<R, E>>,
+	use: (resource: R) => Awaitable<Result<T, F>>,
+	release: (resource: R) => Awaitable<Result<unknown, G>>,
+): AsyncResult<T, E | F | G | ReleaseError<F, G>> {
+	const acquired = await acquire();
+
+	if (acquired.type === "err") {
+		return acquired;
+	}
+
+	let used: Result<T, F>;
+
+	try {
+		used = await use(acquired.value);
+	} catch (reason) {
+		let released: Result<unknown, G>;
+
+		try {
+			released = await release(acquired.value);
+		} catch (release_reason) {
+			throw new ReleaseError(reason, release_reason);
+		}
+
+		throw released.type === "err"
+			? new ReleaseError(reason, released.value)
+			: reason;
+	}
+
+	const released = await release(acquired.value);
+
+	if (released.type === "ok") {
+		return used;
+	}
+
+	return used.type === "err"
+		? err(new ReleaseError(used.value, released.value))
+		: err(released.value);
+}
+
+/**
+ * Acquires a resource implementing `Symbol.asyncDispose` or `Symbol.dispose`, uses it and always disposes it,
+ * like an `await using` declaration but for `Result`-returning steps.
+ * An error thrown by the disposal is mapped through `on_dispose` and combined with the use-step's error
+ * in a `ReleaseError` instead of being swallowed or replacing it.
+ * @template R - The type of the disposable resource.
+ * @template T - The type of the successful value of `use`.
+ * @template E - The type of the error value of `acquire`.
+ * @template F - The type of the error value of `use`.
+ * @template G - The type of the mapped disposal error.
+ * @param {() => Awaitable<Result<R, E>>} acquire - The function acquiring the resource.
+ * @param {(resource: R) => Awaitable<Result<T, F>>} use - The function doing fallible work with the resource.
+ * @param {(reason: unknown) => G} on_dispose - The function mapping an error thrown by the disposal to an error value.
+ * @returns {AsyncResult<T, E | F | G | ReleaseError<F, G>>} The result of `use`, or the error of whichever step failed.
+ */
+export function with_resource<
+	R extends Disposable | AsyncDisposable,
+	T,
+	E,
+	F,
+	G,
+>(
+	acquire: () => Awaitable<Result<R, E>>,
+	use: (resource: R) => Awaitable<Result<T, F>>,
+	on_dispose: (reason: unknown) => G,
+): AsyncResult<T, E | F | G | ReleaseError<F, G>> {
+	return bracket(acquire, use, async (resource) => {
+		try {
+			if (Symbol.asyncDispose in resource) {
+				await resource[Symbol.asyncDispose]();
+			} else {
+				resource[Symbol.dispose]();
+			}
+
+			return ok(undefined);
+		} catch (reason) {
+			return err(on_dispose(reason));
+		}
+	});
+}
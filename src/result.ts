@@ -1,14 +1,22 @@
+import { inspect_custom, render } from "./inspect";
+
 /**
  * Err represents any error
  * @template E - The type of the error value.
  */
-type Err<E> = { readonly type: "err"; value: E };
+export type Err<E> = {
+	readonly type: "err";
+	value: E;
+};
 
 /**
  * Ok represents successful results
  * @template T - The type of the success value.
  */
-type Ok<T> = { readonly type: "ok"; value: T };
+export type Ok<T> = {
+	readonly type: "ok";
+	value: T;
+};
 
 /**
  * A Result can be either a success (Ok) or a failure (Err) response.
@@ -19,29 +27,206 @@ type Ok<T> = { readonly type: "ok"; value: T };
  */
 export type Result<T, E> = Ok<T> | Err<E>;
 
+/**
+ * Extracts the successful value type from a `Result` or `Ok` type.
+ * @template R - The result type to extract the successful value type from.
+ */
+export type ValueOf<R> = R extends Ok<infer T> ? T : never;
+
+/**
+ * Extracts the error type from a `Result` or `Err` type.
+ * @template R - The result type to extract the error type from.
+ */
+export type ErrorOf<R> = R extends Err<infer E> ? E : never;
+
+/**
+ * Shared prototype of all `Ok` and `Err` values.
+ * `console.log` in Node and Bun prints results the same way as `to_string`.
+ */
+const result_prototype = Object.freeze({
+	[inspect_custom](this: Result<unknown, unknown>) {
+		return to_string(this);
+	},
+});
+
+/**
+ * Creates a frozen result with the shared prototype.
+ * Fields are written directly rather than with `Object.assign`, which avoids allocating a temporary object.
+ * Freezing and the prototype still make this two to four times as slow as a plain literal, see `bun run bench`.
+ * @param {"ok" | "err"} type - The variant of the result.
+ * @param {unknown} value - The successful or error value.
+ * @returns {Result<never, never>} The frozen result, typed by the caller.
+ */
+function create(type: "ok" | "err", value: unknown): Result<never, never> {
+	const result = Object.create(result_prototype);
+
+	result.type = type;
+	result.value = value;
+
+	return Object.freeze(result);
+}
+
+/**
+ * An ErrEvent is passed to the listeners registered with `on_err`.
+ */
+export type ErrEvent = {
+	/**
+	 * `"created"` when `err` creates a result, `"unwrapped"` when `unwrap` or `lazy_unwrap` falls back to a default.
+	 * Results derived from an existing error, e.g. by `map_error`, and the ones built by decoders aren't reported as created.
+	 */
+	kind: "created" | "unwrapped";
+	/** The `Err` result. */
+	result: Err<unknown>;
+	/** The stack trace captured when the result was created, only available in development mode. */
+	stack: string | undefined;
+};
+
+/**
+ * A listener registered with `on_err`.
+ */
+export type ErrListener = (event: ErrEvent) => void;
+
+/**
+ * The listeners registered with `on_err`.
+ */
+const err_listeners = new Set<ErrListener>();
+
+/**
+ * The stack traces of the `Err` results created in development mode.
+ * Stored aside rather than on the results, so that they stay equal to `Err` results created without them.
+ */
+const creation_stacks = new WeakMap<object, string>();
+
+/**
+ * Whether `err` captures a stack trace, see `set_dev_mode`.
+ */
+let dev_mode = false;
+
+/**
+ * Calls every listener registered with `on_err`.
+ * A listener that throws doesn't affect the caller or the other listeners,
+ * its error is rethrown in a microtask so it is still reported as uncaught.
+ * @param {ErrEvent["kind"]} kind - What happened to the result.
+ * @param {Err<unknown>} result - The `Err` result.
+ */
+function notify(kind: ErrEvent["kind"], result: Err<unknown>): void {
+	const event = { kind, result, stack: creation_stacks.get(result) };
+
+	for (const listener of err_listeners) {
+		try {
+			listener(event);
+		} catch (error) {
+			queueMicrotask(() => {
+				throw error;
+			});
+		}
+	}
+}
+
+/**
+ * UnwrapError is thrown when a value is forcefully extracted from an `Err` result
+ * or a `none` option, e.g. with `expect` or `unwrap_or_throw`.
+ * For results, the original error value is available as `cause`.
+ */
+export class UnwrapError extends Error {
+	override readonly name = "UnwrapError";
+
+	/**
+	 * @param {string} message - A message describing why a value was expected.
+	 * @param {ErrorOptions} [options] - Native error options, holding the original error value as `cause`.
+	 */
+	constructor(message: string, options?: ErrorOptions) {
+		super(message, options);
+	}
+}
+
 /**
  * Creates an `Ok` result containing the given value.
+ * The result is frozen, so it can be shared freely.
  * @template T - The type of the successful value.
  * @param {T} value - The value to wrap in an `Ok` result.
  * @returns {Result<T, never>} An `Ok` result.
  */
 export function ok<T>(value: T): Result<T, never> {
-	return {
-		type: "ok",
-		value,
-	};
+	return create("ok", value);
 }
 
 /**
  * Creates an `Err` result containing the given error value.
+ * The result is frozen, so it can be shared freely.
+ * In development mode its stack trace is captured, and the listeners registered with `on_err` are notified.
  * @template E - The type of the error value.
  * @param {E} value - The error value to wrap in an `Err` result.
  * @returns {Result<never, E>} An `Err` result.
  */
 export function err<E>(value: E): Result<never, E> {
-	return {
-		type: "err",
-		value,
+	const result = create("err", value) as Err<E>;
+
+	if (dev_mode) {
+		const { stack } = new Error("Err created");
+
+		if (stack !== undefined) {
+			creation_stacks.set(result, stack);
+		}
+	}
+
+	if (err_listeners.size > 0) {
+		notify("created", result);
+	}
+
+	return result;
+}
+
+/**
+ * Creates an `Err` result like `err`, without capturing a stack trace or notifying the listeners registered with `on_err`.
+ * The library uses it for results derived from an existing error, like the ones of `map_error`,
+ * and for the intermediate results of decoders, so a single failure isn't reported several times.
+ * It is internal to the library and not meant to be called by applications.
+ * @internal
+ * @template E - The type of the error value.
+ * @param {E} value - The error value to wrap in an `Err` result.
+ * @returns {Result<never, E>} An `Err` result.
+ */
+export function derived_err<E>(value: E): Result<never, E> {
+	return create("err", value);
+}
+
+/**
+ * Turns the development mode on or off, it is off by default.
+ * In development mode, `err` captures a stack trace of where each `Err` result is created,
+ * available through `creation_stack` and the events of `on_err`. Capturing a stack is slow,
+ * keep this mode for development and tests.
+ * @param {boolean} enabled - Whether `err` captures stack traces from now on.
+ */
+export function set_dev_mode(enabled: boolean): void {
+	dev_mode = enabled;
+}
+
+/**
+ * Returns the stack trace captured when an `Err` result was created in development mode.
+ * @template T - The type of the successful value.
+ * @template E - The type of the error value.
+ * @param {Result<T, E>} result - The result to look up.
+ * @returns {string | undefined} The stack trace, or `undefined` for `Ok` results and results created outside development mode.
+ */
+export function creation_stack<T, E>(result: Result<T, E>): string | undefined {
+	return creation_stacks.get(result);
+}
+
+/**
+ * Registers a listener called whenever an `Err` result is created, or unwrapped with a default value
+ * by `unwrap` or `lazy_unwrap`, e.g. to report errors to telemetry. Listeners are called synchronously,
+ * when none is registered `err` and the unwrapping functions don't pay for them.
+ * @param {ErrListener} listener - The function to call with each event.
+ * @returns {() => void} A function unregistering the listener.
+ * @example
+ * const stop = on_err(({ kind, result }) => metrics.increment(`err.${kind}`, { error: to_string(result) }));
+ */
+export function on_err(listener: ErrListener): () => void {
+	err_listeners.add(listener);
+
+	return () => {
+		err_listeners.delete(listener);
 	};
 }
 
@@ -69,6 +254,171 @@ export function is_err<T, E>(result: Result<T, E>): result is Err<E> {
 	return !is_ok(result);
 }
 
+/**
+ * Checks if an unknown value has the shape of a `Result`, e.g. a payload received from another worker or over HTTP.
+ * Only the shape is checked, use `result_from_json` from the json module to also decode the inner values.
+ * A value passing the check works with every function of this module, including `bind` inside `gen`.
+ * A missing `value` stands for `undefined`, which `JSON.stringify` drops, e.g. for a result of `nil_error`.
+ * @param {unknown} value - The value to check.
+ * @returns {value is Result<unknown, unknown>} `true` if the value is an object with a `type` of `"ok"` or `"err"`.
+ */
+export function is_result(value: unknown): value is Result<unknown, unknown> {
+	return (
+		typeof value === "object" &&
+		value !== null &&
+		"type" in value &&
+		(value.type === "ok" || value.type === "err")
+	);
+}
+
+/**
+ * Checks if two results are the same variant holding equal values.
+ * @template T - The type of the successful value.
+ * @template E - The type of the error value.
+ * @param {Result<T, E>} a - The first result.
+ * @param {Result<T, E>} b - The second result.
+ * @param {(a: T, b: T) => boolean} [equals_value] - The equality of successful values, defaults to `Object.is`.
+ * @param {(a: E, b: E) => boolean} [equals_error] - The equality of error values, defaults to `Object.is`.
+ * @returns {boolean} `true` if both results are `Ok` with equal values or both are `Err` with equal errors.
+ */
+export function equals<T, E>(
+	a: Result<T, E>,
+	b: Result<T, E>,
+	equals_value: (a: T, b: T) => boolean = Object.is,
+	equals_error: (a: E, b: E) => boolean = Object.is,
+): boolean {
+	if (a.type === "ok" && b.type === "ok") {
+		return equals_value(a.value, b.value);
+	}
+
+	if (a.type === "err" && b.type === "err") {
+		return equals_error(a.value, b.value);
+	}
+
+	return false;
+}
+
+/**
+ * Compares two primitive-like values with `<` and `>`.
+ * @param {unknown} a - The first value.
+ * @param {unknown} b - The second value.
+ * @returns {number} A negative number if `a` comes first, a positive number if `b` comes first, `0` otherwise.
+ */
+function natural(a: unknown, b: unknown): number {
+	if ((a as number) < (b as number)) {
+		return -1;
+	}
+
+	return (a as number) > (b as number) ? 1 : 0;
+}
+
+/**
+ * Orders two results, for use with `Array.prototype.sort`.
+ * Every `Ok` comes before every `Err`, then values of the same variant are compared with each other.
+ * @example
+ * results.sort((a, b) => compare(a, b));
+ * @template T - The type of the successful value.
+ * @template E - The type of the error value.
+ * @param {Result<T, E>} a - The first result.
+ * @param {Result<T, E>} b - The second result.
+ * @param {(a: T, b: T) => number} [compare_value] - The ordering of successful values, defaults to `<` and `>`.
+ * @param {(a: E, b: E) => number} [compare_error] - The ordering of error values, defaults to `<` and `>`.
+ * @returns {number} A negative number if `a` comes first, a positive number if `b` comes first, `0` otherwise.
+ */
+export function compare<T, E>(
+	a: Result<T, E>,
+	b: Result<T, E>,
+	compare_value: (a: T, b: T) => number = natural,
+	compare_error: (a: E, b: E) => number = natural,
+): number {
+	if (a.type === "ok" && b.type === "ok") {
+		return compare_value(a.value, b.value);
+	}
+
+	if (a.type === "err" && b.type === "err") {
+		return compare_error(a.value, b.value);
+	}
+
+	return a.type === "ok" ? -1 : 1;
+}
+
+/**
+ * Renders a result the way Gleam prints it, e.g. `Ok(1)` or `Err("not found")`.
+ * Nested results and options are rendered the same way.
+ * @template T - The type of the successful value.
+ * @template E - The type of the error value.
+ * @param {Result<T, E>} result - The result to render.
+ * @returns {string} A readable, single-line representation of the result.
+ */
+export function to_string<T, E>(result: Result<T, E>): string {
+	return `${result.type === "ok" ? "Ok" : "Err"}(${render(result.value)})`;
+}
+
+/**
+ * Handles both cases of a `Result` without depending on its representation.
+ * Calls `handlers.ok` with the successful value or `handlers.err` with the error value.
+ * @template T - The type of the successful value.
+ * @template E - The type of the error value.
+ * @template U - The return type of both handlers.
+ * @param {Result<T, E>} result - The result to match.
+ * @param {{ ok: (value: T) => U; err: (value: E) => U }} handlers - The functions handling each case.
+ * @returns {U} The return value of the handler that was called.
+ */
+export function match<T, E, U>(
+	result: Result<T, E>,
+	handlers: { ok: (value: T) => U; err: (value: E) => U },
+): U {
+	switch (result.type) {
+		case "ok":
+			return handlers.ok(result.value);
+
+		default:
+			return handlers.err(result.value);
+	}
+}
+
+/**
+ * An error that is part of a discriminated union, tagged by its `type` field.
+ */
+export type TaggedError = { readonly type: string };
+
+/**
+ * Functions handling each variant of a discriminated-union error, keyed by its `type` tag.
+ * @template E - The discriminated union of error values.
+ */
+export type ErrorHandlers<E extends TaggedError> = {
+	[K in E["type"]]: (error: Extract<E, { type: K }>) => unknown;
+};
+
+/**
+ * Handles every variant of a discriminated-union error value, one function per `type` tag.
+ * If the result is `Ok`, its successful value is returned as is.
+ * If the result is `Err`, the handler matching the error's `type` is called with the narrowed error.
+ * Leaving out a handler for any variant of `E` is a compile-time error.
+ * @template T - The type of the successful value.
+ * @template E - The discriminated union of error values.
+ * @template H - The functions handling each error variant.
+ * @param {Result<T, E>} result - The result whose error to match.
+ * @param {H} handlers - The functions handling each error variant.
+ * @returns {T | ReturnType<H[E["type"]]>} The successful value, or the return value of the handler that was called.
+ */
+export function match_error<
+	T,
+	E extends TaggedError,
+	H extends ErrorHandlers<E>,
+>(result: Result<T, E>, handlers: H): T | ReturnType<H[E["type"]]> {
+	switch (result.type) {
+		case "ok":
+			return result.value;
+
+		default: {
+			const handler = handlers[result.value.type as E["type"]];
+
+			return handler(result.value as never) as ReturnType<H[E["type"]]>;
+		}
+	}
+}
+
 /**
  * Extracts the successful value from an `Ok` result, or returns a default value if it's an `Err`.
  * @template T - The type of the successful value.
@@ -78,7 +428,50 @@ export function is_err<T, E>(result: Result<T, E>): result is Err<E> {
  * @returns {T} The successful value if `result` is `Ok`, otherwise `with_default`.
  */
 export function unwrap<T, E>(result: Result<T, E>, with_default: T): T {
-	return result.type === "ok" ? result.value : with_default;
+	switch (result.type) {
+		case "ok":
+			return result.value;
+
+		default:
+			if (err_listeners.size > 0) {
+				notify("unwrapped", result);
+			}
+
+			return with_default;
+	}
+}
+
+/**
+ * Extracts the successful value from an `Ok` result, or throws an `UnwrapError` with the given message if it's an `Err`.
+ * The thrown error carries the original error value as its `cause`.
+ * @template T - The type of the successful value.
+ * @template E - The type of the error value.
+ * @param {Result<T, E>} result - The result from which to extract the value.
+ * @param {string} message - The message of the thrown `UnwrapError`.
+ * @returns {T} The successful value if `result` is `Ok`.
+ * @throws {UnwrapError} If `result` is `Err`.
+ */
+export function expect<T, E>(result: Result<T, E>, message: string): T {
+	switch (result.type) {
+		case "ok":
+			return result.value;
+
+		default:
+			throw new UnwrapError(message, { cause: result.value });
+	}
+}
+
+/**
+ * Extracts the successful value from an `Ok` result, or throws an `UnwrapError` if it's an `Err`.
+ * The thrown error carries the original error value as its `cause`.
+ * @template T - The type of the successful value.
+ * @template E - The type of the error value.
+ * @param {Result<T, E>} result - The result from which to extract the value.
+ * @returns {T} The successful value if `result` is `Ok`.
+ * @throws {UnwrapError} If `result` is `Err`.
+ */
+export function unwrap_or_throw<T, E>(result: Result<T, E>): T {
+	return expect(result, "called `unwrap_or_throw` on an `Err` value");
 }
 
 /**
@@ -93,6 +486,42 @@ export function unwrap_error<T, E>(result: Result<T, E>, with_default: E): E {
 	return result.type === "err" ? result.value : with_default;
 }
 
+/**
+ * Extracts the successful value from an `Ok` result, or calls a function to produce a default value if it's an `Err`.
+ * The `with_default` function is only called when the result is `Err`.
+ * @template T - The type of the successful value.
+ * @template E - The type of the error value.
+ * @param {Result<T, E>} result - The result from which to unwrap the value.
+ * @param {() => T} with_default - The function producing the default value.
+ * @returns {T} The successful value if `result` is `Ok`, otherwise the return value of `with_default`.
+ */
+export function lazy_unwrap<T, E>(
+	result: Result<T, E>,
+	with_default: () => T,
+): T {
+	switch (result.type) {
+		case "ok":
+			return result.value;
+
+		default:
+			if (err_listeners.size > 0) {
+				notify("unwrapped", result);
+			}
+
+			return with_default();
+	}
+}
+
+/**
+ * Extracts the inner value of a `Result` whose successful and error values share the same type.
+ * @template T - The type of both the successful and the error value.
+ * @param {Result<T, T>} result - The result from which to unwrap the value.
+ * @returns {T} The successful value if `result` is `Ok`, otherwise the error value.
+ */
+export function unwrap_both<T>(result: Result<T, T>): T {
+	return result.value;
+}
+
 /**
  * Transforms the successful value of a `Result` using a mapping function.
  * If the result is `Ok`, the `apply` function is called with its value, and a new `Ok` result
@@ -134,7 +563,82 @@ export function map_error<T, E, U>(
 ): Result<T, U> {
 	switch (result.type) {
 		case "err":
-			return err(apply(result.value));
+			return derived_err(apply(result.value));
+
+		default:
+			return result;
+	}
+}
+
+/**
+ * Transforms either the successful or the error value of a `Result`, depending on which one it holds.
+ * @template T - The original type of the successful value.
+ * @template E - The original type of the error value.
+ * @template U - The new type of the successful value after transformation.
+ * @template F - The new type of the error value after transformation.
+ * @param {Result<T, E>} result - The result to map.
+ * @param {(value: T) => U} on_ok - The function to apply to the successful value.
+ * @param {(value: E) => F} on_err - The function to apply to the error value.
+ * @returns {Result<U, F>} A new `Ok` result with the mapped successful value, or a new `Err` result with the mapped error value.
+ */
+export function map_both<T, E, U, F>(
+	result: Result<T, E>,
+	on_ok: (value: T) => U,
+	on_err: (value: E) => F,
+): Result<U, F> {
+	return is_ok(result) ? ok(on_ok(result.value)) : err(on_err(result.value));
+}
+
+/**
+ * Calls a function with the successful value of a `Result` and returns the result unchanged,
+ * e.g. to log values flowing through a chain of `then` without breaking it.
+ * @template T - The type of the successful value.
+ * @template E - The type of the error value.
+ * @param {Result<T, E>} result - The result to observe.
+ * @param {(value: T) => void} apply - The function to call with the successful value.
+ * @returns {Result<T, E>} The same result.
+ */
+export function tap<T, E>(
+	result: Result<T, E>,
+	apply: (value: T) => void,
+): Result<T, E> {
+	if (result.type === "ok") {
+		apply(result.value);
+	}
+
+	return result;
+}
+
+/**
+ * Calls a function with the error value of a `Result` and returns the result unchanged.
+ * @template T - The type of the successful value.
+ * @template E - The type of the error value.
+ * @param {Result<T, E>} result - The result to observe.
+ * @param {(value: E) => void} apply - The function to call with the error value.
+ * @returns {Result<T, E>} The same result.
+ */
+export function tap_error<T, E>(
+	result: Result<T, E>,
+	apply: (value: E) => void,
+): Result<T, E> {
+	if (result.type === "err") {
+		apply(result.value);
+	}
+
+	return result;
+}
+
+/**
+ * Merges a nested `Result` into a single layer.
+ * @template T - The type of the inner successful value.
+ * @template E - The type of the error value.
+ * @param {Result<Result<T, E>, E>} result - The nested result to flatten.
+ * @returns {Result<T, E>} The inner result if `result` is `Ok`, otherwise the outer `Err`.
+ */
+export function flatten<T, E>(result: Result<Result<T, E>, E>): Result<T, E> {
+	switch (result.type) {
+		case "ok":
+			return result.value;
 
 		default:
 			return result;
@@ -179,13 +683,25 @@ export function replace_error<T, E, U>(
 ): Result<T, U> {
 	switch (result.type) {
 		case "err":
-			return err(value);
+			return derived_err(value);
 
 		default:
 			return result;
 	}
 }
 
+/**
+ * Discards the error value of an `Err` result, replacing it with `undefined`.
+ * This mirrors Gleam's `nil_error`, where `Nil` is represented as `undefined`.
+ * @template T - The type of the successful value.
+ * @template E - The original type of the error value.
+ * @param {Result<T, E>} result - The result whose error value to discard.
+ * @returns {Result<T, undefined>} The original `Ok`, or an `Err` result holding `undefined`.
+ */
+export function nil_error<T, E>(result: Result<T, E>): Result<T, undefined> {
+	return replace_error(result, undefined);
+}
+
 /**
  * Returns the first `Ok` result from two `Result` inputs.
  * If the `left` result is `Ok`, it is returned. Otherwise, the `right` result is returned.
@@ -204,6 +720,27 @@ export function or<T, E>(left: Result<T, E>, right: Result<T, E>) {
 	return right;
 }
 
+/**
+ * Returns the first `Ok` result from two `Result` inputs, producing the second one lazily.
+ * If the `left` result is `Ok`, it is returned and `right` is never called.
+ * Otherwise, the `Result` returned by `right` is returned.
+ * @template T - The type of the successful value.
+ * @template E - The type of the error value.
+ * @param {Result<T, E>} left - The primary result.
+ * @param {() => Result<T, E>} right - The function producing the fallback result.
+ * @returns {Result<T, E>} The `left` result if it's `Ok`, otherwise the result of `right`.
+ */
+export function lazy_or<T, E>(
+	left: Result<T, E>,
+	right: () => Result<T, E>,
+): Result<T, E> {
+	if (is_ok(left)) {
+		return left;
+	}
+
+	return right();
+}
+
 /**
  * Chains a function that returns a `Result` to an existing `Result`.
  * If the `result` is `Ok`, the `apply` function is called with its value, and its returned `Result` is returned.
@@ -229,29 +766,230 @@ export function then<T, U, E>(
 	}
 }
 
+export {
+	/**
+	 * Alias of `then`, matching the name used by Gleam's `result.try`.
+	 */
+	then as try,
+};
+
+/**
+ * Chains a function that returns a `Result` to the error value of an existing `Result`.
+ * If the `result` is `Err`, the `apply` function is called with its error value, and its returned `Result` is returned.
+ * If the `result` is `Ok`, it is returned unchanged.
+ * This is useful for recovering from an error with another fallible operation.
+ * @template T - The type of the successful value.
+ * @template E - The original type of the error value.
+ * @template F - The new type of the error value after recovering.
+ * @param {Result<T, E>} result - The initial result.
+ * @param {(value: E) => Result<T, F>} apply - The function to apply to the error value, which itself returns a `Result`.
+ * @returns {Result<T, F>} A new `Result` from the recovery operation, or the original `Ok`.
+ */
+export function try_recover<T, E, F>(
+	result: Result<T, E>,
+	apply: (value: E) => Result<T, F>,
+): Result<T, F> {
+	switch (result.type) {
+		case "err":
+			return apply(result.value);
+
+		default:
+			return result;
+	}
+}
+
 /**
  * Combines an array of `Result`s into a single `Result` containing an array of successful values.
  * If all results in the list are `Ok`, returns an `Ok` result containing an array of all successful values.
  * If any result in the list is `Err`, returns the first `Err` encountered.
  * This is useful for aggregating multiple fallible operations.
+ * Tuples keep the type of each position, e.g. `[Result<A, E1>, Result<B, E2>]` becomes `Result<[A, B], E1 | E2>`.
+ * @template R - The array or tuple of `Result`s.
+ * @param {R} list - An array of `Result` instances.
+ * @returns {Result<{ [K in keyof R]: ValueOf<R[K]> }, ErrorOf<R[number]>>} An `Ok` result with an array of values if all were `Ok`, or the first `Err` encountered.
+ */
+export function all<const R extends ReadonlyArray<Result<unknown, unknown>>>(
+	list: R,
+): Result<{ -readonly [K in keyof R]: ValueOf<R[K]> }, ErrorOf<R[number]>>;
+/**
+ * Combines an array of `Result`s into a single `Result` containing an array of successful values.
+ * If any result in the list is `Err`, returns the first `Err` encountered.
  * @template T - The type of the successful value within each `Result`.
  * @template E - The type of the error value within each `Result`.
  * @param {Array<Result<T, E>>} list - An array of `Result` instances.
  * @returns {Result<Array<T>, E>} An `Ok` result with an array of values if all were `Ok`, or the first `Err` encountered.
  */
-export function all<T, E>(list: Array<Result<T, E>>): Result<Array<T>, E> {
-	return list.reduce<Result<Array<T>, E>>(
-		(acc, result) => {
-			if (acc.type === "err") {
-				return acc;
-			}
+export function all<T, E>(list: Array<Result<T, E>>): Result<Array<T>, E>;
+export function all(
+	list: ReadonlyArray<Result<unknown, unknown>>,
+): Result<Array<unknown>, unknown> {
+	const values = new Array<unknown>(list.length);
 
-			if (result.type === "err") {
-				return err(result.value);
-			}
+	for (let index = 0; index < list.length; index++) {
+		const result = list[index] as Result<unknown, unknown>;
 
-			return { type: "ok", value: [...acc.value, result.value] };
-		},
-		{ type: "ok", value: [] },
-	);
+		if (result.type === "err") {
+			return result;
+		}
+
+		values[index] = result.value;
+	}
+
+	return ok(values);
+}
+
+/**
+ * Combines a record of `Result`s into a single `Result` of a record with the same keys.
+ * If all results are `Ok`, returns an `Ok` result with every successful value under its key.
+ * If any result is `Err`, returns the first `Err` encountered in key order.
+ * @template R - The record of `Result`s.
+ * @param {R} record - A record of `Result` instances.
+ * @returns {Result<{ [K in keyof R]: ValueOf<R[K]> }, ErrorOf<R[keyof R]>>} An `Ok` result with a record of values if all were `Ok`, or the first `Err` encountered.
+ */
+export function all_record<R extends Record<string, Result<unknown, unknown>>>(
+	record: R,
+): Result<{ [K in keyof R]: ValueOf<R[K]> }, ErrorOf<R[keyof R]>> {
+	const values: Record<string, unknown> = {};
+
+	for (const [key, result] of Object.entries(record)) {
+		if (result.type === "err") {
+			return result as Err<ErrorOf<R[keyof R]>>;
+		}
+
+		values[key] = result.value;
+	}
+
+	return ok(values as { [K in keyof R]: ValueOf<R[K]> });
+}
+
+/**
+ * Splits an array of `Result`s into the successful values and the error values.
+ * Like Gleam, both arrays come back in the reverse order of `list`.
+ * @template T - The type of the successful value within each `Result`.
+ * @template E - The type of the error value within each `Result`.
+ * @param {Array<Result<T, E>>} list - An array of `Result` instances.
+ * @returns {[Array<T>, Array<E>]} A tuple of all successful values and all error values.
+ */
+export function partition<T, E>(
+	list: Array<Result<T, E>>,
+): [Array<T>, Array<E>] {
+	const oks: Array<T> = [];
+	const errs: Array<E> = [];
+
+	for (const result of list) {
+		if (result.type === "ok") {
+			oks.push(result.value);
+		} else {
+			errs.push(result.value);
+		}
+	}
+
+	return [oks.reverse(), errs.reverse()];
+}
+
+/**
+ * Collects the successful values of an array of `Result`s, discarding all `Err`s.
+ * @template T - The type of the successful value within each `Result`.
+ * @template E - The type of the error value within each `Result`.
+ * @param {Array<Result<T, E>>} list - An array of `Result` instances.
+ * @returns {Array<T>} The successful values, in the order of `list`.
+ */
+export function values<T, E>(list: Array<Result<T, E>>): Array<T> {
+	const oks: Array<T> = [];
+
+	for (const result of list) {
+		if (result.type === "ok") {
+			oks.push(result.value);
+		}
+	}
+
+	return oks;
+}
+
+/**
+ * Calls a function that may throw and captures its outcome in a `Result`.
+ * If `fn` returns normally, its return value is wrapped in an `Ok` result.
+ * If `fn` throws, the thrown value is mapped through `on_throw` and wrapped in an `Err` result.
+ * @template T - The return type of the function.
+ * @template E - The type of the error value.
+ * @param {() => T} fn - The function to call.
+ * @param {(error: unknown) => E} on_throw - The function to map the thrown value to an error value.
+ * @returns {Result<T, E>} An `Ok` with the return value, or an `Err` with the mapped thrown value.
+ */
+export function try_call<T, E>(
+	fn: () => T,
+	on_throw: (error: unknown) => E,
+): Result<T, E> {
+	try {
+		return ok(fn());
+	} catch (error) {
+		return err(on_throw(error));
+	}
+}
+
+/**
+ * Wraps a function that may throw into a function that returns a `Result` instead.
+ * The returned function accepts the same parameters as `fn`.
+ * @template A - The parameter types of the function.
+ * @template T - The return type of the function.
+ * @template E - The type of the error value.
+ * @param {(...args: A) => T} fn - The function to wrap.
+ * @param {(error: unknown) => E} on_throw - The function to map the thrown value to an error value.
+ * @returns {(...args: A) => Result<T, E>} A function returning an `Ok` with the return value, or an `Err` with the mapped thrown value.
+ */
+export function from_throwable<A extends Array<unknown>, T, E>(
+	fn: (...args: A) => T,
+	on_throw: (error: unknown) => E,
+): (...args: A) => Result<T, E> {
+	return (...args) => try_call(() => fn(...args), on_throw);
+}
+
+/**
+ * Binds a result to a step of `gen`: `yield* bind(result)` evaluates to its successful value,
+ * or stops the generator with the `Err`. Works with any value of the `Result` shape, e.g. one parsed from JSON.
+ * @template T - The type of the successful value.
+ * @template E - The type of the error value.
+ * @param {Result<T, E>} result - The result to bind.
+ * @returns {Generator<Err<E>, T, unknown>} A generator yielding the `Err`, or returning the successful value.
+ */
+export function* bind<T, E>(
+	result: Result<T, E>,
+): Generator<Err<E>, T, unknown> {
+	if (result.type === "err") {
+		yield result;
+	}
+
+	return result.value as T;
+}
+
+/**
+ * Runs a generator function as a sequence of fallible steps, similar to Gleam's `use` syntax.
+ * Inside the generator, `yield* bind(result)` evaluates to the successful value of the result, or stops the
+ * generator at the first `Err`, which is then returned. The generator's return value is wrapped in an `Ok` result.
+ * The error type is the union of the error types of every `Result` passed to `bind`.
+ * @example
+ * const total = gen(function* () {
+ * 	const a = yield* bind(parse(input_a));
+ * 	const b = yield* bind(parse(input_b));
+ * 	return a + b;
+ * });
+ * @template Y - The `Err` types yielded by the generator.
+ * @template T - The return type of the generator.
+ * @param {() => Generator<Y, T, unknown>} body - The generator function to run.
+ * @returns {Result<T, ErrorOf<Y>>} An `Ok` result with the return value, or the first `Err` encountered.
+ */
+export function gen<Y extends Err<unknown>, T>(
+	body: () => Generator<Y, T, unknown>,
+): Result<T, ErrorOf<Y>> {
+	const iterator = body();
+	const step = iterator.next();
+
+	if (step.done) {
+		return ok(step.value);
+	}
+
+	// let `finally` blocks inside the generator run
+	iterator.return(undefined as T);
+
+	return step.value as Err<ErrorOf<Y>>;
 }
@@ -0,0 +1,212 @@
+import type { AsyncResult } from "./async-result";
+import { err, type Result } from "./result";
+
+/**
+ * A Scheduler runs callbacks after a delay. The default uses `setTimeout`,
+ * tests can pass their own to control time deterministically.
+ */
+export type Scheduler = {
+	/**
+	 * Runs `callback` after `ms` milliseconds.
+	 * @returns A function cancelling the callback if it hasn't run yet.
+	 */
+	schedule: (callback: () => void, ms: number) => () => void;
+};
+
+/**
+ * A RetryPolicy configures how `retry` calls a failing function again.
+ * The delay before attempt `n + 1` is `delay * factor ** (n - 1)`, capped at `max_delay`.
+ * With `jitter`, a random delay between zero and that value is used instead ("full jitter").
+ * @template E - The type of the error value returned by the retried function.
+ */
+export type RetryPolicy<E> = {
+	/** The maximum number of calls, including the first one. Defaults to `3`. */
+	attempts?: number;
+	/** The delay before the first retry, in milliseconds. Defaults to `100`. */
+	delay?: number;
+	/** The multiplier applied to the delay after each retry. Defaults to `2`. */
+	factor?: number;
+	/** The upper bound of the delay, in milliseconds. Defaults to `Infinity`. */
+	max_delay?: number;
+	/** Whether to randomize delays to spread retries of concurrent callers. Defaults to `true`. */
+	jitter?: boolean;
+	/** Decides whether an error is worth retrying. Defaults to retrying every error. */
+	should_retry?: (error: E, attempt: number) => boolean;
+	/** A signal stopping any further attempt when aborted. */
+	signal?: AbortSignal;
+	/** The scheduler used to wait between attempts. Defaults to `setTimeout`. */
+	scheduler?: Scheduler;
+	/** The source of randomness for `jitter`. Defaults to `Math.random`. */
+	random?: () => number;
+};
+
+/**
+ * AbortedError is returned by `retry` when its signal is aborted before an `Ok` was obtained.
+ * The reason of the signal is available as `cause`.
+ */
+export class AbortedError extends Error {
+	override readonly name = "AbortedError";
+
+	/**
+	 * @param {unknown} reason - The reason the signal was aborted with.
+	 */
+	constructor(reason: unknown) {
+		super("operation was aborted", { cause: reason });
+	}
+}
+
+/**
+ * The scheduler backed by the global `setTimeout`.
+ */
+const timers: Scheduler = {
+	schedule: (callback, ms) => {
+		const id = setTimeout(callback, ms);
+
+		return () => clearTimeout(id);
+	},
+};
+
+/**
+ * Waits for a delay, returning early if the signal is aborted.
+ * @param {Scheduler} scheduler - The scheduler used to wait.
+ * @param {number} ms - The delay, in milliseconds.
+ * @param {AbortSignal} [signal] - A signal ending the wait when aborted.
+ * @returns {Promise<void>} A promise resolving after the delay, or as soon as the signal is aborted.
+ */
+function sleep(
+	scheduler: Scheduler,
+	ms: number,
+	signal?: AbortSignal,
+): Promise<void> {
+	if (signal?.aborted) {
+		return Promise.resolve();
+	}
+
+	return new Promise((resolve) => {
+		const abort = () => {
+			cancel();
+			resolve();
+		};
+
+		const cancel = scheduler.schedule(() => {
+			signal?.removeEventListener("abort", abort);
+			resolve();
+		}, ms);
+
+		signal?.addEventListener("abort", abort, { once: true });
+	});
+}
+
+/**
+ * Calls an async function returning a `Result` until it succeeds, following a retry policy.
+ * The last `Err` is returned once the attempts are exhausted or `should_retry` rejects an error.
+ * The function receives the signal of the policy, so an attempt in flight can be cancelled with it.
+ * @example
+ * const user = await retry((attempt, signal) => fetch_user(id, { signal }), {
+ *   attempts: 5,
+ *   should_retry: (error) => error.type === "Unavailable",
+ * });
+ * @template T - The type of the successful value.
+ * @template E - The type of the error value.
+ * @param {(attempt: number, signal: AbortSignal | undefined) => AsyncResult<T, E>} fn - The function to call, receiving the number of the attempt starting at `1` and the signal of the policy.
+ * @param {RetryPolicy<E>} [policy] - The policy configuring the attempts and the delays between them.
+ * @returns {AsyncResult<T, E | AbortedError>} The first `Ok`, the last `Err`, or an `AbortedError` if the signal was aborted.
+ * @throws {RangeError} If `attempts` is neither a positive integer nor `Infinity`, or `delay` or `factor` is not a finite number of at least `0`.
+ */
+export function retry<T, E>(
+	fn: (attempt: number, signal: AbortSignal | undefined) => AsyncResult<T, E>,
+	policy: RetryPolicy<E> = {},
+): AsyncResult<T, E | AbortedError> {
+	const {
+		attempts = 3,
+		delay = 100,
+		factor = 2,
+		max_delay = Number.POSITIVE_INFINITY,
+		jitter = true,
+		should_retry = () => true,
+		signal,
+		scheduler = timers,
+		random = Math.random,
+	} = policy;
+
+	if (
+		attempts !== Number.POSITIVE_INFINITY &&
+		!(Number.isInteger(attempts) && attempts >= 1)
+	) {
+		throw new RangeError(
+			`attempts must be a positive integer or Infinity, got ${attempts}`,
+		);
+	}
+
+	if (!(Number.isFinite(delay) && delay >= 0)) {
+		throw new RangeError(`delay must be a finite number >= 0, got ${delay}`);
+	}
+
+	if (!(Number.isFinite(factor) && factor >= 0)) {
+		throw new RangeError(`factor must be a finite number >= 0, got ${factor}`);
+	}
+
+	const attempt_all = async (): AsyncResult<T, E | AbortedError> => {
+		for (let attempt = 1; ; attempt++) {
+			if (signal?.aborted) {
+				return err(new AbortedError(signal.reason));
+			}
+
+			const result = await fn(attempt, signal);
+
+			if (
+				result.type === "ok" ||
+				attempt >= attempts ||
+				!should_retry(result.value, attempt)
+			) {
+				return result;
+			}
+
+			const backoff = Math.min(delay * factor ** (attempt - 1), max_delay);
+
+			await sleep(scheduler, jitter ? random() * backoff : backoff, signal);
+		}
+	};
+
+	return attempt_all();
+}
+
+/**
+ * Calls an async function returning a `Result`, giving up after a delay.
+ * Instead of throwing, a timeout resolves to an `Err` holding the value returned by `on_timeout`.
+ * The function receives a signal that is aborted on timeout, so it can stop its work.
+ * @template T - The type of the successful value.
+ * @template E - The type of the error value returned by `fn`.
+ * @template F - The type of the error value returned on timeout.
+ * @param {(signal: AbortSignal) => AsyncResult<T, E>} fn - The function to call.
+ * @param {number} ms - The delay after which to give up, in milliseconds.
+ * @param {() => F} on_timeout - The function creating the error value returned on timeout.
+ * @param {Scheduler} [scheduler] - The scheduler used to wait. Defaults to `setTimeout`.
+ * @returns {AsyncResult<T, E | F>} The result of `fn`, or an `Err` if it didn't settle in time.
+ */
+export function timeout<T, E, F>(
+	fn: (signal: AbortSignal) => AsyncResult<T, E>,
+	ms: number,
+	on_timeout: () => F,
+	scheduler: Scheduler = timers,
+): AsyncResult<T, E | F> {
+	const controller = new AbortController();
+
+	return new Promise<Result<T, E | F>>((resolve, reject) => {
+		const cancel = scheduler.schedule(() => {
+			controller.abort();
+			resolve(err(on_timeout()));
+		}, ms);
+
+		fn(controller.signal).then(
+			(result) => {
+				cancel();
+				resolve(result);
+			},
+			(reason) => {
+				cancel();
+				reject(reason);
+			},
+		);
+	});
+}
@@ -0,0 +1,181 @@
+/**
+ * Safe versions of standard-library functions that return `undefined`, `NaN` or throw.
+ * Lookups return an `Option`, parsers return a `Result` with a tagged error describing the input.
+ * @module
+ */
+
+import { none, some, type Option } from "./option";
+import { err, ok, type Result } from "./result";
+import { tagged_error, type Tagged } from "./tagged-error";
+
+/**
+ * The error of `parse_int`, for an input that is not an integer written in the given radix.
+ */
+export type InvalidInteger = Tagged<
+	"InvalidInteger",
+	{ input: string; radix: number }
+>;
+
+/**
+ * The error of `parse_json`, for an input that is not valid JSON.
+ */
+export type InvalidJson = Tagged<
+	"InvalidJson",
+	{ input: string; message: string }
+>;
+
+/**
+ * The error of `parse_url`, for an input that is not a valid absolute or relative URL.
+ */
+export type InvalidUrl = Tagged<
+	"InvalidUrl",
+	{ input: string; base: string | URL | undefined }
+>;
+
+/**
+ * The error of `parse_date`, for an input that doesn't represent a valid date.
+ */
+export type InvalidDate = Tagged<"InvalidDate", { input: string | number }>;
+
+const invalid_integer = tagged_error("InvalidInteger");
+const invalid_json = tagged_error("InvalidJson");
+const invalid_url = tagged_error("InvalidUrl");
+const invalid_date = tagged_error("InvalidDate");
+
+/**
+ * The digits of every supported radix, in order.
+ */
+const digits = "0123456789abcdefghijklmnopqrstuvwxyz";
+
+/**
+ * Safe version of `Array.prototype.find`, type guards narrow the type of the option.
+ * Unlike `find`, an element that is itself `undefined` is returned as a 'some' option.
+ * @template T - The type of the elements.
+ * @param {ReadonlyArray<T>} array - The array to search.
+ * @param {(value: T, index: number) => boolean} predicate - The predicate the element must pass.
+ * @returns {Option<T>} A 'some' option holding the first element passing the predicate, otherwise a 'none' option.
+ */
+export function find<T, U extends T>(
+	array: ReadonlyArray<T>,
+	predicate: (value: T, index: number) => value is U,
+): Option<U>;
+export function find<T>(
+	array: ReadonlyArray<T>,
+	predicate: (value: T, index: number) => boolean,
+): Option<T>;
+export function find<T>(
+	array: ReadonlyArray<T>,
+	predicate: (value: T, index: number) => boolean,
+): Option<T> {
+	for (let index = 0; index < array.length; index++) {
+		const value = array[index] as T;
+
+		if (predicate(value, index)) {
+			return some(value);
+		}
+	}
+
+	return none();
+}
+
+/**
+ * Safe version of `Array.prototype.at`, negative indexes count back from the end of the array.
+ * @template T - The type of the elements.
+ * @param {ReadonlyArray<T>} array - The array to read.
+ * @param {number} index - The index of the element, truncated to an integer like `at` does.
+ * @returns {Option<T>} A 'some' option holding the element, or a 'none' option if the index is out of bounds.
+ */
+export function at<T>(array: ReadonlyArray<T>, index: number): Option<T> {
+	const relative = Math.trunc(index) || 0;
+	const position = relative < 0 ? array.length + relative : relative;
+
+	return position >= 0 && position < array.length
+		? some(array[position] as T)
+		: none();
+}
+
+/**
+ * Safe version of `Map.prototype.get`, a key mapped to `undefined` is returned as a 'some' option.
+ * @template K - The type of the keys.
+ * @template V - The type of the values.
+ * @param {ReadonlyMap<K, V>} map - The map to read.
+ * @param {K} key - The key to look up.
+ * @returns {Option<V>} A 'some' option holding the value of the key, or a 'none' option if the map doesn't have it.
+ */
+export function map_get<K, V>(map: ReadonlyMap<K, V>, key: K): Option<V> {
+	return map.has(key) ? some(map.get(key) as V) : none();
+}
+
+/**
+ * Strict version of `parseInt`: the whole input, apart from surrounding whitespace,
+ * must be an optional sign followed by digits of the radix, e.g. `"12px"` and `""` are rejected.
+ * @param {string} input - The text to parse.
+ * @param {number} [radix] - The base of the integer, between 2 and 36. Defaults to `10`.
+ * @returns {Result<number, InvalidInteger>} An `Ok` holding the integer, or an `Err` describing the input.
+ * @throws {RangeError} If the radix is not an integer between 2 and 36.
+ */
+export function parse_int(
+	input: string,
+	radix = 10,
+): Result<number, InvalidInteger> {
+	if (!Number.isInteger(radix) || radix < 2 || radix > 36) {
+		throw new RangeError(`radix must be between 2 and 36, got ${radix}`);
+	}
+
+	const trimmed = input.trim();
+	const start = trimmed.startsWith("-") || trimmed.startsWith("+") ? 1 : 0;
+	const allowed = digits.slice(0, radix);
+	let valid = trimmed.length > start;
+
+	for (let index = start; valid && index < trimmed.length; index++) {
+		valid = allowed.includes(trimmed.charAt(index).toLowerCase());
+	}
+
+	return valid
+		? ok(Number.parseInt(trimmed, radix))
+		: err(invalid_integer({ input, radix }));
+}
+
+/**
+ * Safe version of `JSON.parse`. The parsed value is `unknown`, use a decoder to check its shape.
+ * @param {string} input - The JSON text to parse.
+ * @returns {Result<unknown, InvalidJson>} An `Ok` holding the parsed value, or an `Err` with the message of the syntax error.
+ */
+export function parse_json(input: string): Result<unknown, InvalidJson> {
+	try {
+		return ok(JSON.parse(input));
+	} catch (error) {
+		return err(
+			invalid_json({ input, message: (error as SyntaxError).message }),
+		);
+	}
+}
+
+/**
+ * Safe version of `new URL`.
+ * @param {string} input - The absolute URL, or the URL relative to `base`.
+ * @param {string | URL} [base] - The base URL that relative inputs are resolved against.
+ * @returns {Result<URL, InvalidUrl>} An `Ok` holding the URL, or an `Err` describing the input.
+ */
+export function parse_url(
+	input: string,
+	base?: string | URL,
+): Result<URL, InvalidUrl> {
+	try {
+		return ok(new URL(input, base));
+	} catch {
+		return err(invalid_url({ input, base }));
+	}
+}
+
+/**
+ * Safe version of `new Date` for strings and timestamps, rejecting inputs that give an invalid date.
+ * Strings are parsed like `Date.parse`, ISO 8601 is the only format parsed the same everywhere.
+ * @param {string | number} input - The date string, or the number of milliseconds since the epoch.
+ * @returns {Result<Date, InvalidDate>} An `Ok` holding the date, or an `Err` describing the input.
+ */
+export function parse_date(input: string | number): Result<Date, InvalidDate> {
+	const date = new Date(input);
+
+	return Number.isNaN(date.getTime()) ? err(invalid_date({ input })) : ok(date);
+}
@@ -0,0 +1,160 @@
+import type { AsyncResult } from "./async-result";
+import type { Decoder } from "./decode";
+import { err, ok, type Result } from "./result";
+
+/**
+ * A schema implementing the Standard Schema interface (https://standardschema.dev),
+ * shared by many validation libraries. The types below follow version 1 of the spec.
+ * @template Input - The type of the input accepted by the schema.
+ * @template Output - The type of the validated output.
+ */
+export type StandardSchemaV1<Input = unknown, Output = Input> = {
+	readonly "~standard": StandardProps<Input, Output>;
+};
+
+/**
+ * The properties of a Standard Schema, stored under the `~standard` key.
+ * @template Input - The type of the input accepted by the schema.
+ * @template Output - The type of the validated output.
+ */
+export type StandardProps<Input = unknown, Output = Input> = {
+	/** The version of the Standard Schema spec. */
+	readonly version: 1;
+	/** The name of the library implementing the schema. */
+	readonly vendor: string;
+	/** Validates an unknown input, possibly asynchronously. */
+	readonly validate: (
+		value: unknown,
+	) => StandardResult<Output> | Promise<StandardResult<Output>>;
+	/** The inferred input and output types, only used at the type level. */
+	readonly types?: StandardTypes<Input, Output> | undefined;
+};
+
+/**
+ * The outcome of validating an input with a Standard Schema.
+ * @template Output - The type of the validated output.
+ */
+export type StandardResult<Output> =
+	| { readonly value: Output; readonly issues?: undefined }
+	| { readonly issues: ReadonlyArray<StandardIssue> };
+
+/**
+ * A problem found while validating an input with a Standard Schema.
+ */
+export type StandardIssue = {
+	/** A description of the problem. */
+	readonly message: string;
+	/** The keys leading from the root of the input to the problem. */
+	readonly path?: ReadonlyArray<PropertyKey | StandardPathSegment> | undefined;
+};
+
+/**
+ * A key of a path in a `StandardIssue`.
+ */
+export type StandardPathSegment = { readonly key: PropertyKey };
+
+/**
+ * The input and output types of a Standard Schema.
+ * @template Input - The type of the input accepted by the schema.
+ * @template Output - The type of the validated output.
+ */
+export type StandardTypes<Input = unknown, Output = Input> = {
+	readonly input: Input;
+	readonly output: Output;
+};
+
+/**
+ * Extracts the output type of a Standard Schema.
+ * @template S - The schema type.
+ */
+export type OutputOf<S extends StandardSchemaV1> = NonNullable<
+	S["~standard"]["types"]
+>["output"];
+
+/**
+ * Converts the outcome of a Standard Schema validation into a `Result`.
+ * @template Output - The type of the validated output.
+ * @param {StandardResult<Output>} result - The outcome of the validation.
+ * @returns {Result<Output, Array<StandardIssue>>} An `Ok` with the output, or an `Err` with the issues.
+ */
+function to_result<Output>(
+	result: StandardResult<Output>,
+): Result<Output, Array<StandardIssue>> {
+	if (result.issues) {
+		return err([...result.issues]);
+	}
+
+	return ok(result.value);
+}
+
+/**
+ * Creates a parser from a synchronous Standard Schema.
+ * The parser throws a `TypeError` if the schema turns out to validate asynchronously,
+ * use `from_standard_schema_async` for such schemas.
+ * @template S - The schema type.
+ * @param {S} schema - Any object implementing the Standard Schema interface.
+ * @returns {(input: unknown) => Result<OutputOf<S>, Array<StandardIssue>>} A function validating an input into a `Result`.
+ */
+export function from_standard_schema<S extends StandardSchemaV1>(
+	schema: S,
+): (input: unknown) => Result<OutputOf<S>, Array<StandardIssue>> {
+	return (input) => {
+		const result = schema["~standard"].validate(input);
+
+		if (result instanceof Promise) {
+			throw new TypeError(
+				"schema validation is async, use `from_standard_schema_async` instead",
+			);
+		}
+
+		return to_result(result);
+	};
+}
+
+/**
+ * Creates an async parser from any Standard Schema, whether it validates synchronously or not.
+ * @template S - The schema type.
+ * @param {S} schema - Any object implementing the Standard Schema interface.
+ * @returns {(input: unknown) => AsyncResult<OutputOf<S>, Array<StandardIssue>>} A function validating an input into a promise of a `Result`.
+ */
+export function from_standard_schema_async<S extends StandardSchemaV1>(
+	schema: S,
+): (input: unknown) => AsyncResult<OutputOf<S>, Array<StandardIssue>> {
+	return async (input) => to_result(await schema["~standard"].validate(input));
+}
+
+/**
+ * Exposes a decoder of the decode module as a Standard Schema, so other tools can consume it.
+ * Every `DecodeError` becomes an issue with the same path.
+ * @template T - The type of the decoded value.
+ * @param {Decoder<T>} decoder - The decoder to expose.
+ * @param {string} [vendor] - The vendor name reported by the schema.
+ * @returns {StandardSchemaV1<unknown, T>} A synchronous Standard Schema.
+ */
+export function to_standard_schema<T>(
+	decoder: Decoder<T>,
+	vendor = "better-returns",
+): StandardSchemaV1<unknown, T> {
+	return {
+		"~standard": {
+			version: 1,
+			vendor,
+			validate: (value) => {
+				const decoded = decoder(value);
+
+				switch (decoded.type) {
+					case "ok":
+						return { value: decoded.value };
+
+					default:
+						return {
+							issues: decoded.value.map((error) => ({
+								message: `expected ${error.expected}, found ${error.found}`,
+								path: error.path,
+							})),
+						};
+				}
+			},
+		},
+	};
+}
@@ -0,0 +1,166 @@
+import type { ErrorOf, Result, TaggedError, ValueOf } from "./result";
+
+/**
+ * A tagged error value, i.e. its fields plus a `type` tag naming the variant.
+ * @template Tag - The tag of the error variant.
+ * @template F - The additional fields of the error.
+ */
+export type Tagged<
+	Tag extends string,
+	F extends object = Record<never, never>,
+> = Readonly<F> & { readonly type: Tag };
+
+/**
+ * A function creating plain tagged error values of one variant, with or without additional fields.
+ * @template Tag - The tag of the error variant.
+ */
+export type TaggedErrorFactory<Tag extends string> = {
+	<F extends object>(fields: F): Tagged<Tag, F>;
+	(): Tagged<Tag>;
+};
+
+/**
+ * A class creating tagged errors that extend the native `Error`, carrying a stack trace and an optional `cause`.
+ * Pass the fields as type argument when extending it, e.g. `class NotFound extends tagged_error_class("NotFound")<{ id: number }> {}`.
+ * @template Tag - The tag of the error variant.
+ */
+export type TaggedErrorClass<Tag extends string> = {
+	new (
+		fields?: Record<never, never>,
+		options?: ErrorOptions,
+	): Error & Tagged<Tag>;
+	new <F extends object = Record<never, never>>(
+		fields: F,
+		options?: ErrorOptions,
+	): Error & Tagged<Tag, F>;
+};
+
+/**
+ * Creates a constructor for plain tagged error values of one variant.
+ * @example
+ * const not_found = tagged_error("NotFound");
+ * err(not_found({ id: 1 })); // Result<never, { readonly id: number; readonly type: "NotFound" }>
+ * @template Tag - The tag of the error variant.
+ * @param {Tag} tag - The tag stored in the `type` field of every created error.
+ * @returns {TaggedErrorFactory<Tag>} A function creating tagged errors from their fields.
+ */
+export function tagged_error<const Tag extends string>(
+	tag: Tag,
+): TaggedErrorFactory<Tag> {
+	return (fields?: object) => ({ ...fields, type: tag }) as Tagged<Tag, never>;
+}
+
+/**
+ * Creates a base class for tagged errors of one variant that extend the native `Error`.
+ * Fields are assigned to the instance, `name` is set to the tag, and a `cause` can be passed as an error option.
+ * @example
+ * class NotFound extends tagged_error_class("NotFound")<{ id: number }> {}
+ * err(new NotFound({ id: 1 }, { cause: original }));
+ * @template Tag - The tag of the error variant.
+ * @param {Tag} tag - The tag stored in the `type` and `name` fields of every created error.
+ * @returns {TaggedErrorClass<Tag>} A class creating tagged errors from their fields.
+ */
+export function tagged_error_class<const Tag extends string>(
+	tag: Tag,
+): TaggedErrorClass<Tag> {
+	class Base extends Error {
+		readonly type = tag;
+
+		constructor(fields?: object, options?: ErrorOptions) {
+			super(undefined, options);
+			this.name = tag;
+			Object.assign(this, fields);
+		}
+	}
+
+	return Base as unknown as TaggedErrorClass<Tag>;
+}
+
+/**
+ * Functions recovering from some variants of a discriminated-union error, keyed by their `type` tag.
+ * @template E - The discriminated union of error values.
+ */
+export type TagHandlers<E extends TaggedError> = {
+	[K in E["type"]]?: (
+		error: Extract<E, { type: K }>,
+	) => Result<unknown, unknown>;
+};
+
+/**
+ * The union of the results returned by a set of handlers.
+ * @template H - The handlers.
+ */
+type HandledResult<H> = {
+	[K in keyof H]-?: H[K] extends (...args: never) => infer R ? R : never;
+}[keyof H];
+
+/**
+ * Recovers from one variant of a discriminated-union error value.
+ * If the result is an `Err` tagged with `tag`, the `handler` is called with the narrowed error and its `Result` is returned.
+ * Otherwise, the result is returned unchanged. The handled variant is removed from the error type.
+ * @template T - The type of the successful value.
+ * @template E - The discriminated union of error values.
+ * @template K - The tag of the handled variant.
+ * @template U - The type of the successful value returned by the handler.
+ * @template F - The type of the error value returned by the handler.
+ * @param {Result<T, E>} result - The result to recover.
+ * @param {K} tag - The tag of the variant to handle.
+ * @param {(error: Extract<E, { type: K }>) => Result<U, F>} handler - The function recovering from the variant.
+ * @returns {Result<T | U, Exclude<E, { type: K }> | F>} The result of the handler, or the original result.
+ */
+export function catch_tag<
+	T,
+	E extends TaggedError,
+	const K extends E["type"],
+	U = never,
+	F = never,
+>(
+	result: Result<T, E>,
+	tag: K,
+	handler: (error: Extract<E, { type: K }>) => Result<U, F>,
+): Result<T | U, Exclude<E, { type: K }> | F> {
+	if (result.type === "err" && result.value.type === tag) {
+		return handler(result.value as Extract<E, { type: K }>);
+	}
+
+	return result as Result<T, Exclude<E, { type: K }>>;
+}
+
+/**
+ * The result of recovering from the variants handled by `H`.
+ * @template T - The type of the successful value.
+ * @template E - The discriminated union of error values.
+ * @template H - The functions recovering from each handled variant.
+ */
+type CaughtTags<T, E, H> = Result<
+	T | ValueOf<HandledResult<H>>,
+	Exclude<E, { type: keyof H }> | ErrorOf<HandledResult<H>>
+>;
+
+/**
+ * Recovers from several variants of a discriminated-union error value at once.
+ * If the result is an `Err` whose tag has a handler, the handler is called with the narrowed error and its `Result` is returned.
+ * Otherwise, the result is returned unchanged. All handled variants are removed from the error type.
+ * @template T - The type of the successful value.
+ * @template E - The discriminated union of error values.
+ * @template H - The functions recovering from each handled variant.
+ * @param {Result<T, E>} result - The result to recover.
+ * @param {H} handlers - The functions recovering from each handled variant, keyed by tag.
+ * @returns {CaughtTags<T, E, H>} The result of the matching handler, or the original result.
+ */
+export function catch_tags<T, E extends TaggedError, H extends TagHandlers<E>>(
+	result: Result<T, E>,
+	handlers: H,
+): CaughtTags<T, E, H> {
+	if (result.type === "err") {
+		const handler = handlers[result.value.type as keyof H] as
+			| ((error: E) => Result<unknown, unknown>)
+			| undefined;
+
+		if (handler) {
+			return handler(result.value) as CaughtTags<T, E, H>;
+		}
+	}
+
+	return result as CaughtTags<T, E, H>;
+}
@@ -0,0 +1,363 @@
+/**
+ * Lazy, cancellable async computations resolving to a `Result`.
+ * Unlike a promise, a task does nothing until it is run, so it can be run again, retried or raced.
+ * @example
+ * const profile = then(fetch_user(id), (user) => fetch_settings(user));
+ * const result = await run(profile, { signal: AbortSignal.timeout(1000) });
+ * @module
+ */
+
+import {
+	from_promise as from_promise_result,
+	type AsyncResult,
+} from "./async-result";
+import { derived_err, err, ok, type Result } from "./result";
+import { AbortedError } from "./retry";
+
+export { AbortedError };
+
+/**
+ * A Task is a deferred async computation resolving to a `Result`, started by calling it with a signal.
+ * Aborting the signal asks the computation to stop, the tasks of this module stop between steps
+ * and resolve to an `Err` holding an `AbortedError` instead of starting the next one.
+ * Tasks have the shape of the functions taken by `timeout`, so they can be passed to it directly.
+ * @template T - The type of the successful value.
+ * @template E - The type of the error value.
+ */
+export type Task<T, E> = (signal: AbortSignal) => AsyncResult<T, E>;
+
+/**
+ * Extracts the successful value type from a `Task` type.
+ * @template K - The task type to extract the successful value type from.
+ */
+export type ValueOf<K> = K extends Task<infer T, unknown> ? T : never;
+
+/**
+ * Extracts the error type from a `Task` type.
+ * @template K - The task type to extract the error type from.
+ */
+export type ErrorOf<K> = K extends Task<unknown, infer E> ? E : never;
+
+/**
+ * Options of `run`.
+ */
+export type RunOptions = {
+	/** A signal cancelling the task when aborted. */
+	signal?: AbortSignal;
+};
+
+/**
+ * Creates a task resolving to an `Ok` result with the given value.
+ * @template T - The type of the successful value.
+ * @param {T} value - The successful value.
+ * @returns {Task<T, never>} A task that always succeeds.
+ */
+export function succeed<T>(value: T): Task<T, never> {
+	return async () => ok(value);
+}
+
+/**
+ * Creates a task resolving to an `Err` result with the given error value.
+ * @template E - The type of the error value.
+ * @param {E} error - The error value.
+ * @returns {Task<never, E>} A task that always fails.
+ */
+export function fail<E>(error: E): Task<never, E> {
+	return async () => err(error);
+}
+
+/**
+ * Creates a task from a function returning a promise, called each time the task is run.
+ * A rejection becomes an `Err` result holding the rejection reason mapped through `on_reject`.
+ * @example
+ * const fetch_user = (id: number) =>
+ *   from_promise((signal) => fetch(`/users/${id}`, { signal }), (reason) => ({ type: "Network", reason }));
+ * @template T - The type of the resolved value.
+ * @template E - The type of the error value.
+ * @param {(signal: AbortSignal) => Promise<T>} fn - The function starting the computation, receiving the signal of the run.
+ * @param {(reason: unknown) => E} on_reject - The function to map the rejection reason to an error value.
+ * @returns {Task<T, E>} A task calling `fn` each time it is run.
+ */
+export function from_promise<T, E>(
+	fn: (signal: AbortSignal) => Promise<T>,
+	on_reject: (reason: unknown) => E,
+): Task<T, E> {
+	return (signal) => from_promise_result(fn(signal), on_reject);
+}
+
+/**
+ * Transforms the successful value of a task using a mapping function.
+ * @template T - The original type of the successful value.
+ * @template E - The type of the error value.
+ * @template U - The new type of the successful value after transformation.
+ * @param {Task<T, E>} task - The task to map.
+ * @param {(value: T) => U} apply - The function to apply to the successful value.
+ * @returns {Task<U, E>} A task resolving to the mapped successful value, or the original `Err`.
+ */
+export function map<T, E, U>(
+	task: Task<T, E>,
+	apply: (value: T) => U,
+): Task<U, E> {
+	return async (signal) => {
+		const result = await task(signal);
+
+		switch (result.type) {
+			case "ok":
+				return ok(apply(result.value));
+
+			default:
+				return result;
+		}
+	};
+}
+
+/**
+ * Transforms the error value of a task using a mapping function.
+ * @template T - The type of the successful value.
+ * @template E - The original type of the error value.
+ * @template U - The new type of the error value after transformation.
+ * @param {Task<T, E>} task - The task whose error value to map.
+ * @param {(value: E) => U} apply - The function to apply to the error value.
+ * @returns {Task<T, U>} A task resolving to the mapped error value, or the original `Ok`.
+ */
+export function map_error<T, E, U>(
+	task: Task<T, E>,
+	apply: (value: E) => U,
+): Task<T, U> {
+	return async (signal) => {
+		const result = await task(signal);
+
+		switch (result.type) {
+			case "err":
+				return derived_err(apply(result.value));
+
+			default:
+				return result;
+		}
+	};
+}
+
+/**
+ * Chains a task returned by a function on the successful value of a task.
+ * The second task isn't started if the signal was aborted in the meantime, the returned task resolves to an `AbortedError` instead.
+ * @template T - The type of the successful value of the first task.
+ * @template U - The type of the successful value of the chained task.
+ * @template E - The type of the error value.
+ * @param {Task<T, E>} task - The first task.
+ * @param {(value: T) => Task<U, E>} apply - The function returning the task to run next.
+ * @returns {Task<U, E | AbortedError>} A task resolving to the result of the chained task, the first `Err`, or an `AbortedError`.
+ */
+export function then<T, U, E>(
+	task: Task<T, E>,
+	apply: (value: T) => Task<U, E>,
+): Task<U, E | AbortedError> {
+	return async (signal) => {
+		const result = await task(signal);
+
+		switch (result.type) {
+			case "ok":
+				if (signal.aborted) {
+					return err(new AbortedError(signal.reason));
+				}
+
+				return apply(result.value)(signal);
+
+			default:
+				return result;
+		}
+	};
+}
+
+/**
+ * Runs a fallback task if a task resolves to an `Err`, the fallback isn't started otherwise.
+ * The fallback isn't started if the signal was aborted in the meantime, the returned task resolves to an `AbortedError` instead.
+ * @template T - The type of the successful value.
+ * @template E - The type of the error value.
+ * @param {Task<T, E>} first - The task to run first.
+ * @param {Task<T, E>} second - The task to run if `first` fails.
+ * @returns {Task<T, E | AbortedError>} A task resolving to the first `Ok`, the `Err` of `second`, or an `AbortedError`.
+ */
+export function or<T, E>(
+	first: Task<T, E>,
+	second: Task<T, E>,
+): Task<T, E | AbortedError> {
+	return async (signal) => {
+		const result = await first(signal);
+
+		switch (result.type) {
+			case "ok":
+				return result;
+
+			default:
+				if (signal.aborted) {
+					return err(new AbortedError(signal.reason));
+				}
+
+				return second(signal);
+		}
+	};
+}
+
+/**
+ * Combines a tuple of tasks into a task running them concurrently, keeping the type of each position.
+ * The other tasks are aborted as soon as one of them resolves to an `Err`.
+ * @template L - The tuple of tasks.
+ * @param {L} tasks - The tasks to run.
+ * @returns {Task<{ -readonly [K in keyof L]: ValueOf<L[K]> }, ErrorOf<L[number]>>} A task resolving to an `Ok` of every value in order, or the first `Err` to settle.
+ */
+export function all<const L extends ReadonlyArray<Task<unknown, unknown>>>(
+	tasks: L,
+): Task<{ -readonly [K in keyof L]: ValueOf<L[K]> }, ErrorOf<L[number]>>;
+/**
+ * Combines an array of tasks into a task running them concurrently.
+ * The other tasks are aborted as soon as one of them resolves to an `Err`.
+ * @template T - The type of the successful value of each task.
+ * @template E - The type of the error value of each task.
+ * @param {Array<Task<T, E>>} tasks - The tasks to run.
+ * @returns {Task<Array<T>, E>} A task resolving to an `Ok` of every value in order, or the first `Err` to settle.
+ */
+export function all<T, E>(tasks: Array<Task<T, E>>): Task<Array<T>, E>;
+export function all(
+	tasks: ReadonlyArray<Task<unknown, unknown>>,
+): Task<Array<unknown>, unknown> {
+	return (signal) => {
+		const controller = new AbortController();
+		const abort = () => controller.abort(signal.reason);
+		const values = new Array<unknown>(tasks.length);
+
+		signal.addEventListener("abort", abort, { once: true });
+
+		return new Promise<Result<Array<unknown>, unknown>>((resolve, reject) => {
+			const settle = async (task: Task<unknown, unknown>, index: number) => {
+				const result = await task(controller.signal);
+
+				if (result.type === "err") {
+					controller.abort();
+					resolve(result);
+					return;
+				}
+
+				values[index] = result.value;
+			};
+
+			Promise.all(tasks.map(settle))
+				.then(
+					() => resolve(ok(values)),
+					(reason) => {
+						controller.abort();
+						reject(reason);
+					},
+				)
+				.finally(() => signal.removeEventListener("abort", abort));
+		});
+	};
+}
+
+/**
+ * Starts a task. Aborting the signal resolves the run right away to an `Err` holding an `AbortedError`,
+ * and aborts the signal received by the task so it can stop its work.
+ * @template T - The type of the successful value.
+ * @template E - The type of the error value.
+ * @param {Task<T, E>} task - The task to run.
+ * @param {RunOptions} [options] - The options of the run.
+ * @returns {AsyncResult<T, E | AbortedError>} The result of the task, or an `AbortedError` if the signal was aborted first.
+ */
+export function run<T, E>(
+	task: Task<T, E>,
+	options: RunOptions = {},
+): AsyncResult<T, E | AbortedError> {
+	const { signal } = options;
+
+	if (signal?.aborted) {
+		return Promise.resolve(err(new AbortedError(signal.reason)));
+	}
+
+	const controller = new AbortController();
+
+	return new Promise<Result<T, E | AbortedError>>((resolve, reject) => {
+		const abort = () => {
+			controller.abort(signal?.reason);
+			resolve(err(new AbortedError(signal?.reason)));
+		};
+
+		signal?.addEventListener("abort", abort, { once: true });
+
+		task(controller.signal).then(
+			(result) => {
+				signal?.removeEventListener("abort", abort);
+				resolve(result);
+			},
+			(reason) => {
+				signal?.removeEventListener("abort", abort);
+
+				// a task stopping because it was aborted has already been resolved
+				if (!controller.signal.aborted) {
+					reject(reason);
+				}
+			},
+		);
+	});
+}
+
+/**
+ * Shares the pending or settled result of a task between its runs, as long as `keep` accepts it.
+ * The shared computation receives a signal that is never aborted, since other runs may still wait for it.
+ * @template T - The type of the successful value.
+ * @template E - The type of the error value.
+ * @param {Task<T, E>} task - The task to memoize.
+ * @param {(result: Result<T, E>) => boolean} keep - Whether to keep a settled result for the next runs.
+ * @returns {Task<T, E>} The memoized task.
+ */
+function cache<T, E>(
+	task: Task<T, E>,
+	keep: (result: Result<T, E>) => boolean,
+): Task<T, E> {
+	const signal = new AbortController().signal;
+	let cached: AsyncResult<T, E> | undefined;
+
+	return () => {
+		if (cached === undefined) {
+			const pending = task(signal);
+			const forget = () => {
+				if (cached === pending) {
+					cached = undefined;
+				}
+			};
+
+			cached = pending;
+			pending.then((result) => {
+				if (!keep(result)) {
+					forget();
+				}
+			}, forget);
+		}
+
+		return cached;
+	};
+}
+
+/**
+ * Memoizes a task: it is started on the first run, and every run resolves to its first result.
+ * A task that rejects is started again on the next run.
+ * Cancelling a run doesn't stop the shared computation, which keeps going for the other runs.
+ * @template T - The type of the successful value.
+ * @template E - The type of the error value.
+ * @param {Task<T, E>} task - The task to memoize.
+ * @returns {Task<T, E>} A task sharing the result of `task` between its runs.
+ */
+export function memoize<T, E>(task: Task<T, E>): Task<T, E> {
+	return cache(task, () => true);
+}
+
+/**
+ * Memoizes the first `Ok` result of a task, an `Err` is shared with the runs waiting for it
+ * but the task is started again on the next run, e.g. to retry a failed connection.
+ * Cancelling a run doesn't stop the shared computation, which keeps going for the other runs.
+ * @template T - The type of the successful value.
+ * @template E - The type of the error value.
+ * @param {Task<T, E>} task - The task to memoize.
+ * @returns {Task<T, E>} A task sharing the first successful result of `task` between its runs.
+ */
+export function memoize_ok<T, E>(task: Task<T, E>): Task<T, E> {
+	return cache(task, (result) => result.type === "ok");
+}
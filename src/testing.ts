@@ -0,0 +1,265 @@
+/**
+ * Test helpers for code returning results and options.
+ *
+ * Register the matchers and their types once per test file, or in a preload script:
+ * ```ts
+ * import { expect } from "bun:test";
+ * import { matchers, type ResultMatchers } from "better-returns/testing";
+ *
+ * declare module "bun:test" {
+ *   interface Matchers<T> extends ResultMatchers {}
+ * }
+ *
+ * expect.extend(matchers);
+ *
+ * expect(parse("1")).toBeOkWith(1);
+ * ```
+ * @module
+ */
+
+import { render } from "./inspect";
+import {
+	to_string as option_to_string,
+	is_option,
+	type Option,
+	type Some,
+} from "./option";
+import {
+	is_result,
+	to_string as result_to_string,
+	UnwrapError,
+	type Err,
+	type Ok,
+	type Result,
+} from "./result";
+
+/**
+ * The matchers added to `expect` by `expect.extend(matchers)`.
+ * Merge them into the `Matchers` interface of `bun:test` for them to type-check:
+ * ```ts
+ * declare module "bun:test" {
+ *   interface Matchers<T> extends ResultMatchers {}
+ * }
+ * ```
+ */
+export type ResultMatchers = {
+	/** Checks that the received value is an `Ok` result. */
+	toBeOk(): void;
+	/** Checks that the received value is an `Ok` result holding a value equal to `expected`. */
+	toBeOkWith(expected: unknown): void;
+	/** Checks that the received value is an `Err` result. */
+	toBeErr(): void;
+	/** Checks that the received value is an `Err` result holding an error equal to `expected`. */
+	toBeErrWith(expected: unknown): void;
+	/** Checks that the received value is a 'some' option, holding a value equal to `expected` if given. */
+	toBeSome(expected?: unknown): void;
+	/** Checks that the received value is a 'none' option. */
+	toBeNone(): void;
+};
+
+declare module "bun:test" {
+	interface Matchers<T> extends ResultMatchers {}
+}
+
+/**
+ * The part of the context of a custom matcher used by the matchers of this module.
+ */
+type MatcherContext = {
+	isNot: boolean;
+	equals: (a: unknown, b: unknown) => boolean;
+	utils: Readonly<{
+		matcherHint: (
+			name: string,
+			received?: unknown,
+			expected?: unknown,
+			options?: { isNot?: boolean },
+		) => string;
+	}>;
+};
+
+/**
+ * The outcome of a custom matcher.
+ */
+type MatcherResult = { pass: boolean; message: () => string };
+
+/**
+ * Renders a received value, using the Gleam-like form for results and options.
+ * @param {unknown} value - The value to render.
+ * @returns {string} A single-line representation of the value.
+ */
+function describe(value: unknown): string {
+	if (is_result(value)) {
+		return result_to_string(value);
+	}
+
+	if (is_option(value)) {
+		return option_to_string(value);
+	}
+
+	return render(value);
+}
+
+/**
+ * Builds the outcome of a matcher, with a message aligning the expected and received values.
+ * @param {MatcherContext} context - The context of the matcher.
+ * @param {string} name - The name of the matcher.
+ * @param {boolean} pass - Whether the received value matches.
+ * @param {string} expected - A description of the expected value.
+ * @param {unknown} received - The received value.
+ * @param {boolean} [with_argument] - Whether the matcher was called with an expected value.
+ * @returns {MatcherResult} The outcome of the matcher.
+ */
+function outcome(
+	context: MatcherContext,
+	name: string,
+	pass: boolean,
+	expected: string,
+	received: unknown,
+	with_argument = false,
+): MatcherResult {
+	return {
+		pass,
+		message: () =>
+			[
+				context.utils.matcherHint(
+					name,
+					undefined,
+					with_argument ? "expected" : "",
+					{ isNot: context.isNot },
+				),
+				"",
+				`Expected: ${context.isNot ? "not " : ""}${expected}`,
+				`Received: ${describe(received)}`,
+			].join("\n"),
+	};
+}
+
+/**
+ * Custom matchers for `bun:test`, register them with `expect.extend(matchers)`.
+ * Values are compared with the same recursive equality as `toEqual`.
+ */
+export const matchers = {
+	toBeOk(this: MatcherContext, received: unknown): MatcherResult {
+		const pass = is_result(received) && received.type === "ok";
+
+		return outcome(this, "toBeOk", pass, "Ok(_)", received);
+	},
+
+	toBeOkWith(
+		this: MatcherContext,
+		received: unknown,
+		expected: unknown,
+	): MatcherResult {
+		const pass =
+			is_result(received) &&
+			received.type === "ok" &&
+			this.equals(received.value, expected);
+
+		return outcome(
+			this,
+			"toBeOkWith",
+			pass,
+			`Ok(${render(expected)})`,
+			received,
+			true,
+		);
+	},
+
+	toBeErr(this: MatcherContext, received: unknown): MatcherResult {
+		const pass = is_result(received) && received.type === "err";
+
+		return outcome(this, "toBeErr", pass, "Err(_)", received);
+	},
+
+	toBeErrWith(
+		this: MatcherContext,
+		received: unknown,
+		expected: unknown,
+	): MatcherResult {
+		const pass =
+			is_result(received) &&
+			received.type === "err" &&
+			this.equals(received.value, expected);
+
+		return outcome(
+			this,
+			"toBeErrWith",
+			pass,
+			`Err(${render(expected)})`,
+			received,
+			true,
+		);
+	},
+
+	toBeSome(
+		this: MatcherContext,
+		received: unknown,
+		...expected: [expected?: unknown]
+	): MatcherResult {
+		const with_argument = expected.length > 0;
+		const pass =
+			is_option(received) &&
+			received.type === "some" &&
+			(!with_argument || this.equals(received.value, expected[0]));
+
+		return outcome(
+			this,
+			"toBeSome",
+			pass,
+			with_argument ? `Some(${render(expected[0])})` : "Some(_)",
+			received,
+			with_argument,
+		);
+	},
+
+	toBeNone(this: MatcherContext, received: unknown): MatcherResult {
+		const pass = is_option(received) && received.type === "none";
+
+		return outcome(this, "toBeNone", pass, "None", received);
+	},
+};
+
+/**
+ * Asserts that a result is `Ok`, narrowing its type for the rest of the test.
+ * @template T - The type of the successful value.
+ * @template E - The type of the error value.
+ * @param {Result<T, E>} result - The result to check.
+ * @throws {UnwrapError} If the result is an `Err`, with its error value as `cause`.
+ */
+export function assert_ok<T, E>(result: Result<T, E>): asserts result is Ok<T> {
+	if (result.type === "err") {
+		throw new UnwrapError(
+			`expected Ok(_), received ${result_to_string(result)}`,
+			{ cause: result.value },
+		);
+	}
+}
+
+/**
+ * Asserts that a result is `Err`, narrowing its type for the rest of the test.
+ * @template T - The type of the successful value.
+ * @template E - The type of the error value.
+ * @param {Result<T, E>} result - The result to check.
+ * @throws {UnwrapError} If the result is `Ok`.
+ */
+export function assert_err<T, E>(
+	result: Result<T, E>,
+): asserts result is Err<E> {
+	if (result.type === "ok") {
+		throw new UnwrapError(
+			`expected Err(_), received ${result_to_string(result)}`,
+		);
+	}
+}
+
+/**
+ * Asserts that an option is 'some', narrowing its type for the rest of the test.
+ * @template T - The type of the value.
+ * @param {Option<T>} option - The option to check.
+ * @throws {UnwrapError} If the option is 'none'.
+ */
+export function assert_some<T>(option: Option<T>): asserts option is Some<T> {
+	if (option.type === "none") {
+		throw new UnwrapError("expected Some(_), received None");
+	}
+}
@@ -0,0 +1,209 @@
+import {
+	derived_err,
+	err,
+	ok,
+	type ErrorOf,
+	type Result,
+	type ValueOf,
+} from "./result";
+
+/**
+ * An array holding at least one element.
+ * @template T - The type of the elements.
+ */
+export type NonEmptyArray<T> = [T, ...Array<T>];
+
+/**
+ * A Validation is a `Result` whose error is a non-empty array of every problem found.
+ * Unlike `Result`, combining validations keeps the errors of all inputs instead of only the first one,
+ * which makes it suitable for form and config validation.
+ * Since it is a plain `Result`, all functions of the result module work on it as well.
+ * @template T - The type of the valid value.
+ * @template E - The type of a single error.
+ */
+export type Validation<T, E> = Result<T, NonEmptyArray<E>>;
+
+/**
+ * Extracts the type of a single error from a `Validation` type.
+ * @template V - The validation type to extract the error type from.
+ */
+type ErrorsOf<V> = ErrorOf<V> extends NonEmptyArray<infer E> ? E : never;
+
+/**
+ * Creates a valid `Validation` containing the given value.
+ * @template T - The type of the valid value.
+ * @param {T} value - The value to wrap.
+ * @returns {Validation<T, never>} An `Ok` result holding the value.
+ */
+export function valid<T>(value: T): Validation<T, never> {
+	return ok(value);
+}
+
+/**
+ * Creates an invalid `Validation` containing a single error.
+ * @template E - The type of the error.
+ * @param {E} error - The error to wrap.
+ * @returns {Validation<never, E>} An `Err` result holding an array with the error.
+ */
+export function invalid<E>(error: E): Validation<never, E> {
+	return err([error]);
+}
+
+/**
+ * Converts a `Result` into a `Validation`, wrapping its error value in a non-empty array.
+ * @template T - The type of the successful value.
+ * @template E - The type of the error value.
+ * @param {Result<T, E>} result - The result to convert.
+ * @returns {Validation<T, E>} A valid `Validation` with the successful value, or an invalid one with the error.
+ */
+export function from_result<T, E>(result: Result<T, E>): Validation<T, E> {
+	switch (result.type) {
+		case "ok":
+			return result;
+
+		default:
+			return invalid(result.value);
+	}
+}
+
+/**
+ * Converts a `Validation` into a `Result` holding every collected error.
+ * This only changes the declared type, the value itself is already a `Result`.
+ * @template T - The type of the valid value.
+ * @template E - The type of a single error.
+ * @param {Validation<T, E>} validation - The validation to convert.
+ * @returns {Result<T, NonEmptyArray<E>>} The same value as a `Result`.
+ */
+export function to_result<T, E>(
+	validation: Validation<T, E>,
+): Result<T, NonEmptyArray<E>> {
+	return validation;
+}
+
+/**
+ * Returns the errors of a `Validation`, or an empty array if it is valid.
+ * @template T - The type of the valid value.
+ * @template E - The type of a single error.
+ * @param {Validation<T, E>} validation - The validation to read the errors from.
+ * @returns {Array<E>} The collected errors.
+ */
+function errors_of<T, E>(validation: Validation<T, E>): Array<E> {
+	return validation.type === "err" ? validation.value : [];
+}
+
+/**
+ * Builds a `Validation` from a value and the errors collected while producing it.
+ * @template T - The type of the valid value.
+ * @template E - The type of a single error.
+ * @param {() => T} value - The function producing the value, only called if there are no errors.
+ * @param {Array<E>} errors - The collected errors.
+ * @returns {Validation<T, E>} An invalid `Validation` if any error was collected, otherwise a valid one.
+ */
+function from_errors<T, E>(value: () => T, errors: Array<E>): Validation<T, E> {
+	if (errors.length > 0) {
+		return derived_err(errors as NonEmptyArray<E>);
+	}
+
+	return ok(value());
+}
+
+/**
+ * Combines an array of `Validation`s into a single `Validation` containing an array of valid values.
+ * If all validations are valid, returns a valid `Validation` with all values.
+ * Otherwise, returns an invalid `Validation` with the errors of every invalid input, in input order.
+ * @template T - The type of the valid value within each `Validation`.
+ * @template E - The type of a single error within each `Validation`.
+ * @param {Array<Validation<T, E>>} list - An array of `Validation` instances.
+ * @returns {Validation<Array<T>, E>} A valid `Validation` with an array of values, or an invalid one with all errors.
+ */
+export function all<T, E>(
+	list: Array<Validation<T, E>>,
+): Validation<Array<T>, E> {
+	const values: Array<T> = [];
+	const errors: Array<E> = [];
+
+	for (const validation of list) {
+		if (validation.type === "ok") {
+			values.push(validation.value);
+		} else {
+			errors.push(...validation.value);
+		}
+	}
+
+	return from_errors(() => values, errors);
+}
+
+/**
+ * Combines a record of `Validation`s into a single `Validation` of a record with the same keys.
+ * If all validations are valid, returns a valid `Validation` with every value under its key.
+ * Otherwise, returns an invalid `Validation` with the errors of every invalid field, in key order.
+ * @template R - The record of `Validation`s.
+ * @param {R} record - A record of `Validation` instances.
+ * @returns {Validation<{ [K in keyof R]: ValueOf<R[K]> }, ErrorsOf<R[keyof R]>>} A valid `Validation` with a record of values, or an invalid one with all errors.
+ */
+export function combine<R extends Record<string, Validation<unknown, unknown>>>(
+	record: R,
+): Validation<{ [K in keyof R]: ValueOf<R[K]> }, ErrorsOf<R[keyof R]>> {
+	const values: Record<string, unknown> = {};
+	const errors: Array<unknown> = [];
+
+	for (const [key, validation] of Object.entries(record)) {
+		if (validation.type === "ok") {
+			values[key] = validation.value;
+		} else {
+			errors.push(...validation.value);
+		}
+	}
+
+	return from_errors(
+		() => values as { [K in keyof R]: ValueOf<R[K]> },
+		errors as Array<ErrorsOf<R[keyof R]>>,
+	);
+}
+
+/**
+ * Combines two `Validation`s using a function, keeping the errors of both.
+ * @template A - The type of the first valid value.
+ * @template B - The type of the second valid value.
+ * @template U - The type of the combined value.
+ * @template E - The type of a single error.
+ * @param {Validation<A, E>} a - The first validation.
+ * @param {Validation<B, E>} b - The second validation.
+ * @param {(a: A, b: B) => U} apply - The function combining both valid values.
+ * @returns {Validation<U, E>} A valid `Validation` with the combined value, or an invalid one with the errors of `a` followed by those of `b`.
+ */
+export function map2<A, B, U, E>(
+	a: Validation<A, E>,
+	b: Validation<B, E>,
+	apply: (a: A, b: B) => U,
+): Validation<U, E> {
+	return from_errors(
+		() => apply(a.value as A, b.value as B),
+		[...errors_of(a), ...errors_of(b)],
+	);
+}
+
+/**
+ * Combines three `Validation`s using a function, keeping the errors of all three.
+ * @template A - The type of the first valid value.
+ * @template B - The type of the second valid value.
+ * @template C - The type of the third valid value.
+ * @template U - The type of the combined value.
+ * @template E - The type of a single error.
+ * @param {Validation<A, E>} a - The first validation.
+ * @param {Validation<B, E>} b - The second validation.
+ * @param {Validation<C, E>} c - The third validation.
+ * @param {(a: A, b: B, c: C) => U} apply - The function combining all valid values.
+ * @returns {Validation<U, E>} A valid `Validation` with the combined value, or an invalid one with the errors of `a`, `b` and `c` in order.
+ */
+export function map3<A, B, C, U, E>(
+	a: Validation<A, E>,
+	b: Validation<B, E>,
+	c: Validation<C, E>,
+	apply: (a: A, b: B, c: C) => U,
+): Validation<U, E> {
+	return from_errors(
+		() => apply(a.value as A, b.value as B, c.value as C),
+		[...errors_of(a), ...errors_of(b), ...errors_of(c)],
+	);
+}